@@ -6,5 +6,132 @@ export type UserLocation = {
   moving: boolean;
   conversationLabel?: string;
 };
-export type CoveyTownList = { friendlyName: string; coveyTownID: string; currentOccupancy: number; maximumOccupancy: number }[];
+/**
+ * The region that players may move within, in the same coordinate system as UserLocation:
+ * valid locations have 0 <= x <= width and 0 <= y <= height
+ */
+export type TownBounds = { width: number; height: number };
+/**
+ * A text chat message sent by a player
+ */
+export type ChatMessage = {
+  id: string;
+  authorID: string;
+  authorName: string;
+  body: string;
+  /** Time that the message was received by the server, in ms since the epoch */
+  timestamp: number;
+  /**
+   * Label of the conversation area that this message was sent to, or undefined if it was sent
+   * to the whole town
+   */
+  conversationLabel?: string;
+  /** ID of the player that this message was privately sent to, if it is a direct message */
+  recipientID?: string;
+};
+/**
+ * Settings that may be chosen when a town is created, and later changed with its update password
+ */
+export type TownSettings = {
+  /** Maximum number of players that may be in the town at once */
+  capacity: number;
+  /**
+   * Whether any player may create conversation areas, or only the owner of the town (that is,
+   * someone who provides its update password)
+   */
+  conversationAreaCreation: 'anyone' | 'owner';
+  /** Largest conversation area that may be created, or undefined if there is no limit */
+  maxConversationAreaSize?: { width: number; height: number };
+  /** Location that new players start at, instead of at one of the map's spawn points */
+  spawnPoint?: { x: number; y: number };
+};
+/**
+ * Changes to the settings of a town. Settings that are not included are left unchanged, and the
+ * optional settings that are null are removed.
+ */
+export type TownSettingsUpdate = Partial<Omit<TownSettings, 'maxConversationAreaSize' | 'spawnPoint'>> & {
+  maxConversationAreaSize?: TownSettings['maxConversationAreaSize'] | null;
+  spawnPoint?: TownSettings['spawnPoint'] | null;
+};
+/**
+ * Whether a player is willing to be approached by other players
+ */
+export type PlayerStatus = 'available' | 'busy' | 'do-not-disturb';
+/**
+ * The parts of a player that they may choose for themselves after joining a town
+ */
+export type PlayerProfile = {
+  status: PlayerStatus;
+  /** Short message that explains the player's status, or an empty string */
+  statusMessage: string;
+  /** Identifier of the avatar that the player's client should draw them with */
+  avatar: string;
+};
+/**
+ * Why a player was removed from a town by the server: 'kicked' or 'banned' by the town's owner,
+ * or 'idle' because they had not done anything for too long
+ */
+export type PlayerRemovalReason = 'kicked' | 'banned' | 'idle';
+/**
+ * The role that a player has in a town. Moderators may do the things that otherwise require the
+ * town update password, apart from changing or deleting the town itself
+ */
+export type TownRole = 'member' | 'moderator';
+/**
+ * An invitation to join a town, which lets players join without knowing its ID or join password
+ */
+export type TownInvite = {
+  inviteToken: string;
+  /** Time after which the invite may no longer be used, in ms since the epoch, or undefined if it never expires */
+  expiresAt?: number;
+  /** Number of times that the invite may be used, or undefined if there is no limit */
+  maxUses?: number;
+  /** Number of times that the invite has been used */
+  uses: number;
+  /** Role that players who join with the invite are given */
+  role: TownRole;
+};
+export type CoveyTownList = {
+  friendlyName: string;
+  coveyTownID: string;
+  currentOccupancy: number;
+  maximumOccupancy: number;
+  /** Whether players must provide the town's join password to join it */
+  requiresJoinPassword: boolean;
+}[];
+
+/**
+ * The kinds of actions that are recorded in the audit log of a town
+ */
+export type AuditEventType =
+  'townCreated' | 'townUpdated' | 'townDeleted' | 'mapUpdated'
+  | 'playerJoined' | 'playerLeft' | 'playerKicked' | 'playerBanned'
+  | 'inviteCreated' | 'inviteRevoked'
+  | 'conversationAreaCreated' | 'conversationAreaUpdated' | 'conversationAreaDeleted';
+/**
+ * An action that was taken in a town, as recorded in its audit log
+ */
+export type AuditEvent = {
+  coveyTownID: string;
+  type: AuditEventType;
+  /** Time at which the action was taken, in ms since the epoch */
+  timestamp: number;
+  /** ID of the player who took the action, or undefined if it was taken with the town update password */
+  actorID?: string;
+  /** Human-readable description of what the action affected */
+  details?: string;
+};
 
+/**
+ * Machine-readable reasons that the server gives for failing a request:
+ *  - invalidRequest: the request was malformed, or asked for something that is not allowed
+ *  - invalidPassword: the town update password (or join password) was missing or wrong
+ *  - forbidden: the player is not allowed to do this, e.g. because they were banned
+ *  - notFound: the town, session, invite, template or other thing the request refers to does not exist
+ *  - conflict: the request clashes with the current state of the town, e.g. an overlapping conversation area
+ *  - rateLimited: the client has made too many requests, and should try again later
+ *  - serverShuttingDown: the server is shutting down, and is not accepting new sessions
+ */
+export type ResponseErrorCode =
+  'invalidRequest' | 'invalidPassword' | 'forbidden' | 'notFound' | 'conflict'
+  | 'rateLimited' | 'serverShuttingDown';
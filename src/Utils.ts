@@ -14,3 +14,15 @@ export function logError(err: any): void {
   // eslint-disable-next-line no-console
   console.trace(err);
 }
+
+/**
+ * Parses an optional setting (such as an environment variable) that is a number of 0 or more
+ *
+ * @param value the setting, if it is set
+ * @param defaultValue the value to use if the setting is not set, or is not a finite number of 0
+ *  or more
+ */
+export function parseNonNegativeNumber(value: string | undefined, defaultValue: number): number {
+  const parsed = value === undefined || value.trim() === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : defaultValue;
+}
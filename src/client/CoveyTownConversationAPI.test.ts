@@ -1,3 +1,4 @@
+import axios from 'axios';
 import CORS from 'cors';
 import Express from 'express';
 import http from 'http';
@@ -10,8 +11,12 @@ import addTownRoutes from '../router/towns';
 import * as requestHandlers from '../requestHandlers/CoveyTownRequestHandlers';
 import { createConversationForTesting,
   caCreateHandlerHelper,
+  createTiledMapForTesting,
 } from './TestUtils';
 import TownsServiceClient, { ServerConversationArea } from './TownsServiceClient';
+import { AuditEventType, ResponseErrorCode } from '../CoveyTypes';
+import TownsServiceError from './TownsServiceError';
+import { TiledMap } from '../types/TiledMap';
 
 type TestTownData = {
   friendlyName: string;
@@ -23,6 +28,7 @@ type TestTownData = {
 describe('Create Conversation Area API', () => {
   let server: http.Server;
   let apiClient: TownsServiceClient;
+  let serverURL: string;
 
   async function createTownForTesting(
     friendlyNameToUse?: string,
@@ -53,7 +59,8 @@ describe('Create Conversation Area API', () => {
     await server.listen();
     const address = server.address() as AddressInfo;
 
-    apiClient = new TownsServiceClient(`http://127.0.0.1:${address.port}`);
+    serverURL = `http://127.0.0.1:${address.port}`;
+    apiClient = new TownsServiceClient(serverURL);
   });
 
   afterAll(async () => {
@@ -95,6 +102,516 @@ describe('Create Conversation Area API', () => {
       expect(String(e)).toEqual('Error: Request failed with status code 500');
     }));
   });
+
+  it('Updates and deletes a conversation area', async () => {
+    const testingTown = await createTownForTesting(undefined, true);
+    const testingSession = await apiClient.joinTown({
+      userName: nanoid(),
+      coveyTownID: testingTown.coveyTownID,
+    });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+    });
+    await apiClient.updateConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+      topic: 'updated topic',
+    });
+    const townController = CoveyTownsStore.getInstance().getControllerForTown(testingTown.coveyTownID);
+    expect(townController?.conversationAreas[0].topic).toEqual('updated topic');
+
+    await apiClient.deleteConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+    });
+    expect(townController?.conversationAreas).toEqual([]);
+  });
+
+  it('Only lets the owner create conversation areas in a town whose settings require it', async () => {
+    const { coveyTownID, coveyTownPassword } = await apiClient.createTown({
+      friendlyName: nanoid(),
+      isPubliclyListed: false,
+      settings: { conversationAreaCreation: 'owner' },
+    });
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID });
+    expect(testingSession.settings.conversationAreaCreation).toEqual('owner');
+
+    await expect(apiClient.createConversationArea({
+      conversationArea: createConversationForTesting(),
+      coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+    })).rejects.toThrow('Error processing request: Invalid password. Only the owner of this town may create conversation areas.');
+    expect(await apiClient.createConversationArea({
+      conversationArea: createConversationForTesting(),
+      coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      coveyTownPassword,
+    })).toEqual({});
+  });
+
+  it('Only lets the owner change or delete a pinned conversation area', async () => {
+    const testingTown = await createTownForTesting(undefined, true);
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID: testingTown.coveyTownID });
+    const conversationArea = createConversationForTesting();
+    conversationArea.isPinned = true;
+    await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      coveyTownPassword: testingTown.townUpdatePassword,
+    });
+
+    const updateError = await apiClient.updateConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+      topic: 'updated topic',
+    }).catch((e: TownsServiceError) => e) as TownsServiceError;
+    expect(updateError.errorCode).toEqual('invalidPassword');
+    expect(updateError.message).toEqual('Error processing request: Invalid password. Only the owner of this town may change this conversation area.');
+    const deleteError = await apiClient.deleteConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+    }).catch((e: TownsServiceError) => e) as TownsServiceError;
+    expect(deleteError.errorCode).toEqual('invalidPassword');
+    expect(deleteError.message).toEqual('Error processing request: Invalid password. Only the owner of this town may delete this conversation area.');
+    const townController = CoveyTownsStore.getInstance().getControllerForTown(testingTown.coveyTownID);
+    expect(townController?.conversationAreas.map(area => area.topic)).toEqual([conversationArea.topic]);
+
+    await apiClient.updateConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+      topic: 'updated topic',
+      coveyTownPassword: testingTown.townUpdatePassword,
+    });
+    await apiClient.deleteConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+      coveyTownPassword: testingTown.townUpdatePassword,
+    });
+    expect(townController?.conversationAreas).toEqual([]);
+  });
+
+  it('Only lets the owner change or delete conversation areas in a town whose settings require it', async () => {
+    const { coveyTownID, coveyTownPassword } = await apiClient.createTown({
+      friendlyName: nanoid(),
+      isPubliclyListed: false,
+      settings: { conversationAreaCreation: 'owner' },
+    });
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      coveyTownPassword,
+    });
+
+    await expect(apiClient.updateConversationArea({
+      coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+      topic: 'updated topic',
+    })).rejects.toThrow('Error processing request: Invalid password. Only the owner of this town may change this conversation area.');
+    await expect(apiClient.deleteConversationArea({
+      coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+      conversationLabel: conversationArea.label,
+      coveyTownPassword: nanoid(),
+    })).rejects.toThrow('Error processing request: Invalid password. Only the owner of this town may delete this conversation area.');
+    expect(CoveyTownsStore.getInstance().getControllerForTown(coveyTownID)?.conversationAreas)
+      .toHaveLength(1);
+  });
+
+  it('Rejects towns with invalid settings', async () => {
+    await expect(apiClient.createTown({
+      friendlyName: nanoid(),
+      isPubliclyListed: true,
+      settings: { capacity: 0 },
+    })).rejects.toThrow('Error processing request: Invalid town settings');
+
+    const testingTown = await createTownForTesting(undefined, true);
+    await expect(apiClient.updateTown({
+      coveyTownID: testingTown.coveyTownID,
+      coveyTownPassword: testingTown.townUpdatePassword,
+      settings: { spawnPoint: { x: -1, y: 0 } },
+    })).rejects.toThrow();
+    await apiClient.updateTown({
+      coveyTownID: testingTown.coveyTownID,
+      coveyTownPassword: testingTown.townUpdatePassword,
+      settings: { capacity: 2 },
+    });
+    const towns = await apiClient.listTowns();
+    expect(towns.towns.find(town => town.coveyTownID === testingTown.coveyTownID)?.maximumOccupancy).toEqual(2);
+
+    await expect(apiClient.createTown({
+      friendlyName: nanoid(),
+      isPubliclyListed: true,
+      sourceTownID: testingTown.coveyTownID,
+      sourceTownPassword: testingTown.townUpdatePassword,
+      settings: { capacity: -1 },
+    })).rejects.toThrow('Error processing request: Invalid town settings');
+    const copy = await apiClient.createTown({
+      friendlyName: nanoid(),
+      isPubliclyListed: true,
+      sourceTownID: testingTown.coveyTownID,
+      sourceTownPassword: testingTown.townUpdatePassword,
+      settings: { capacity: 3 },
+    });
+    const townsWithCopy = await apiClient.listTowns();
+    expect(townsWithCopy.towns.length).toEqual(towns.towns.length + 1);
+    expect(townsWithCopy.towns.find(town => town.coveyTownID === copy.coveyTownID)?.maximumOccupancy).toEqual(3);
+  });
+
+  it('Requires the join password to join a town that has one', async () => {
+    const { coveyTownID, coveyTownPassword } = await apiClient.createTown({
+      friendlyName: nanoid(),
+      isPubliclyListed: true,
+      joinPassword: 'secret',
+    });
+    const towns = await apiClient.listTowns();
+    expect(towns.towns.find(town => town.coveyTownID === coveyTownID)?.requiresJoinPassword).toBe(true);
+
+    await expect(apiClient.joinTown({ userName: nanoid(), coveyTownID }))
+      .rejects.toThrow('Error processing request: Error: This town requires a join password');
+    await expect(apiClient.joinTown({ userName: nanoid(), coveyTownID, joinPassword: 'wrong' }))
+      .rejects.toThrow('Error processing request: Error: Invalid join password. Please double check the password for this town');
+    const session = await apiClient.joinTown({ userName: nanoid(), coveyTownID, joinPassword: 'secret' });
+    expect(session.coveySessionToken).toBeDefined();
+
+    await apiClient.updateTown({ coveyTownID, coveyTownPassword, joinPassword: '' });
+    expect(await apiClient.joinTown({ userName: nanoid(), coveyTownID })).toBeDefined();
+  });
+
+  it('Lets players join a town with an invite instead of its ID and join password', async () => {
+    const { coveyTownID, coveyTownPassword } = await apiClient.createTown({
+      friendlyName: nanoid(),
+      isPubliclyListed: false,
+      joinPassword: 'secret',
+    });
+    const { invite } = await apiClient.createInvite({
+      coveyTownID, coveyTownPassword, maxUses: 1, role: 'moderator',
+    });
+    expect((await apiClient.listInvites({ coveyTownID, coveyTownPassword })).invites).toEqual([invite]);
+
+    const session = await apiClient.joinTown({ userName: nanoid(), inviteToken: invite.inviteToken });
+    expect(session.coveyTownID).toEqual(coveyTownID);
+    expect(session.role).toEqual('moderator');
+    await expect(apiClient.joinTown({ userName: nanoid(), inviteToken: invite.inviteToken }))
+      .rejects.toThrow('Error processing request: Error: Invalid invite. It may have expired, been used up or been revoked');
+
+    // Concurrent joins can not use an invite more times than it allows
+    const { invite: singleUseInvite } = await apiClient.createInvite({ coveyTownID, coveyTownPassword, maxUses: 1 });
+    const joins = await Promise.all([1, 2].map(() => apiClient.joinTown({
+      userName: nanoid(), inviteToken: singleUseInvite.inviteToken,
+    }).then(() => true, () => false)));
+    expect(joins.filter(joined => joined)).toHaveLength(1);
+
+    // Moderators may pin conversation areas without the town update password
+    const conversationArea = createConversationForTesting();
+    conversationArea.isPinned = true;
+    expect(await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID,
+      sessionToken: session.coveySessionToken,
+    })).toEqual({});
+
+    const { invite: revokedInvite } = await apiClient.createInvite({ coveyTownID, coveyTownPassword });
+    await apiClient.revokeInvite({ coveyTownID, coveyTownPassword, inviteToken: revokedInvite.inviteToken });
+    await expect(apiClient.joinTown({ userName: nanoid(), inviteToken: revokedInvite.inviteToken }))
+      .rejects.toThrow();
+    expect((await apiClient.listInvites({ coveyTownID, coveyTownPassword })).invites).toEqual([]);
+  });
+
+  it('Exports a town and imports it as a new town, rejecting incompatible versions', async () => {
+    const testingTown = await createTownForTesting(undefined, false);
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID: testingTown.coveyTownID });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+    });
+
+    const { snapshot } = await apiClient.exportTown({
+      coveyTownID: testingTown.coveyTownID,
+      coveyTownPassword: testingTown.townUpdatePassword,
+    });
+    expect(snapshot.version).toEqual(1);
+    expect(snapshot.conversationAreas.map(area => area.label)).toEqual([conversationArea.label]);
+    await expect(apiClient.exportTown({ coveyTownID: testingTown.coveyTownID, coveyTownPassword: nanoid() }))
+      .rejects.toThrow();
+
+    const { coveyTownID } = await apiClient.importTown({ snapshot, isPubliclyListed: false });
+    expect(coveyTownID).not.toEqual(testingTown.coveyTownID);
+    const importedTown = CoveyTownsStore.getInstance().getControllerForTown(coveyTownID);
+    expect(importedTown?.conversationAreas.map(area => area.label)).toEqual([conversationArea.label]);
+
+    await expect(apiClient.importTown({ snapshot: { ...snapshot, version: 2 }, isPubliclyListed: false }))
+      .rejects.toThrow('Error processing request: Unsupported snapshot version 2. This server can only import version 1 snapshots');
+    const malformedMap = { ...createTiledMapForTesting(), layers: [null] } as unknown as TiledMap;
+    const importError = await apiClient.importTown({ snapshot: { ...snapshot, map: malformedMap }, isPubliclyListed: false })
+      .catch((e: TownsServiceError) => e) as TownsServiceError;
+    expect(importError.status).toEqual(400);
+    expect(importError.errorCode).toEqual('invalidRequest');
+  });
+
+  it('Clones a town from an existing town or a saved template', async () => {
+    const testingTown = await createTownForTesting(undefined, false);
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID: testingTown.coveyTownID });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+    });
+    await apiClient.updateTown({
+      coveyTownID: testingTown.coveyTownID,
+      coveyTownPassword: testingTown.townUpdatePassword,
+      settings: { capacity: 7 },
+    });
+
+    const clone = await apiClient.createTown({
+      friendlyName: 'clone',
+      isPubliclyListed: false,
+      sourceTownID: testingTown.coveyTownID,
+      sourceTownPassword: testingTown.townUpdatePassword,
+    });
+    expect(clone.coveyTownID).not.toEqual(testingTown.coveyTownID);
+    expect(clone.coveyTownPassword).not.toEqual(testingTown.townUpdatePassword);
+    const clonedTown = CoveyTownsStore.getInstance().getControllerForTown(clone.coveyTownID);
+    expect(clonedTown?.friendlyName).toEqual('clone');
+    expect(clonedTown?.capacity).toEqual(7);
+    expect(clonedTown?.players).toEqual([]);
+    expect(clonedTown?.conversationAreas.map(area => area.label)).toEqual([conversationArea.label]);
+    await expect(apiClient.createTown({
+      friendlyName: 'clone',
+      isPubliclyListed: false,
+      sourceTownID: testingTown.coveyTownID,
+      sourceTownPassword: nanoid(),
+    })).rejects.toThrow();
+
+    const templateName = nanoid();
+    await apiClient.createTemplate({
+      templateName,
+      coveyTownID: testingTown.coveyTownID,
+      coveyTownPassword: testingTown.townUpdatePassword,
+    });
+    expect((await apiClient.listTemplates()).templates).toContain(templateName);
+    const fromTemplate = await apiClient.createTown({
+      friendlyName: 'from template',
+      isPubliclyListed: false,
+      templateName,
+      joinPassword: 'secret',
+    });
+    const templatedTown = CoveyTownsStore.getInstance().getControllerForTown(fromTemplate.coveyTownID);
+    expect(templatedTown?.conversationAreas.map(area => area.label)).toEqual([conversationArea.label]);
+    expect(templatedTown?.isValidJoinPassword('secret')).toBe(true);
+    await expect(apiClient.createTown({ friendlyName: 'x', isPubliclyListed: false, templateName: nanoid() }))
+      .rejects.toThrow('Error processing request: Error: No such template');
+  });
+
+  it('Records town actions in an audit log that may be filtered by type and time', async () => {
+    const startTime = Date.now();
+    const testingTown = await createTownForTesting(undefined, false);
+    const { coveyTownID } = testingTown;
+    const coveyTownPassword = testingTown.townUpdatePassword;
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+    });
+    await apiClient.updateTown({ coveyTownID, coveyTownPassword, settings: { capacity: 7 } });
+
+    const { events } = await apiClient.getAuditLog({ coveyTownID, coveyTownPassword });
+    expect(events.map(event => event.type))
+      .toEqual(['townCreated', 'playerJoined', 'conversationAreaCreated', 'townUpdated']);
+    expect(events.every(event => event.timestamp >= startTime)).toBe(true);
+    expect(events[2].actorID).toEqual(testingSession.coveyUserID);
+    expect(events[2].details).toEqual(conversationArea.label);
+
+    const filtered = await apiClient.getAuditLog({
+      coveyTownID, coveyTownPassword, types: ['playerJoined', 'townUpdated'], since: events[1].timestamp,
+    });
+    expect(filtered.events).toEqual([events[1], events[3]]);
+    expect((await apiClient.getAuditLog({ coveyTownID, coveyTownPassword, until: startTime - 1 })).events)
+      .toEqual([]);
+    await expect(apiClient.getAuditLog({ coveyTownID, coveyTownPassword: nanoid() })).rejects.toThrow();
+    await expect(apiClient.getAuditLog({
+      coveyTownID, coveyTownPassword, types: ['notAnEvent' as AuditEventType],
+    })).rejects.toThrow();
+
+    // The audit log of a deleted town can still be read with its update password
+    await apiClient.deleteTown({ coveyTownID, coveyTownPassword });
+    const afterDeletion = await apiClient.getAuditLog({ coveyTownID, coveyTownPassword, types: ['townDeleted'] });
+    expect(afterDeletion.events.map(event => event.details)).toEqual([testingTown.friendlyName]);
+    await expect(apiClient.getAuditLog({ coveyTownID, coveyTownPassword: nanoid() })).rejects.toThrow();
+  });
+
+  it('Records a town and replays the recording into a read-only town', async () => {
+    const testingTown = await createTownForTesting(undefined, false);
+    const { coveyTownID } = testingTown;
+    const coveyTownPassword = testingTown.townUpdatePassword;
+    await apiClient.startRecording({ coveyTownID, coveyTownPassword });
+    await expect(apiClient.startRecording({ coveyTownID, coveyTownPassword })).rejects.toThrow();
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID });
+    await expect(apiClient.stopRecording({ coveyTownID, coveyTownPassword: nanoid() })).rejects.toThrow();
+    const { recording } = await apiClient.stopRecording({ coveyTownID, coveyTownPassword });
+    expect(recording.events.map(event => event.type)).toEqual(['playerJoined']);
+
+    const replay = await apiClient.createReplay({ recording, isPubliclyListed: false, speed: 1000 });
+    const replayTown = CoveyTownsStore.getInstance().getControllerForTown(replay.coveyTownID);
+    expect(replayTown?.isReadOnly).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(replayTown?.players.map(player => player.id)).toEqual([testingSession.coveyUserID]);
+    await expect(apiClient.createReplay({ recording, isPubliclyListed: false, speed: 0 })).rejects.toThrow();
+  });
+
+  it('Exposes metrics about towns and request latency in the Prometheus text format', async () => {
+    const testingTown = await createTownForTesting(undefined, true);
+    await apiClient.joinTown({ userName: nanoid(), coveyTownID: testingTown.coveyTownID });
+
+    const response = await axios.get<string>(`${serverURL}/metrics`);
+    expect(response.headers['content-type']).toMatch(/^text\/plain/);
+    const lines = response.data.split('\n');
+    expect(lines).toContain('# TYPE covey_towns gauge');
+    expect(lines).toContain(`covey_town_players{town_id="${testingTown.coveyTownID}"} 1`);
+    expect(lines).toContain(`covey_town_conversation_areas{town_id="${testingTown.coveyTownID}"} 0`);
+    expect(lines.find(line => line.startsWith('covey_http_request_duration_seconds_count{method="POST",route="/towns",status_code="200"}')))
+      .toBeDefined();
+  });
+
+  it('Reports that the server is live and ready to accept sessions', async () => {
+    expect((await axios.get(`${serverURL}/healthz`)).status).toEqual(200);
+    expect((await axios.get(`${serverURL}/readyz`)).data).toEqual({ isOK: true, response: {} });
+  });
+
+  it('Responds with 429 and Retry-After once a client exceeds the REST rate limit of a route', async () => {
+    process.env.REST_RATE_LIMIT_BURST = '1';
+    process.env.REST_RATE_LIMIT_PER_SECOND = '0.5';
+    const app = Express();
+    const limitedServer = http.createServer(app);
+    addTownRoutes(limitedServer, app);
+    delete process.env.REST_RATE_LIMIT_BURST;
+    delete process.env.REST_RATE_LIMIT_PER_SECOND;
+    await limitedServer.listen();
+    const limitedURL = `http://127.0.0.1:${(limitedServer.address() as AddressInfo).port}`;
+    try {
+      expect((await axios.get(`${limitedURL}/towns`)).status).toEqual(200);
+      const response = await axios.get(`${limitedURL}/towns`, { validateStatus: () => true });
+      expect(response.status).toEqual(429);
+      expect(response.headers['retry-after']).toEqual('2');
+      expect((await axios.get(`${limitedURL}/healthz`)).status).toEqual(200);
+      // Each route has its own limit
+      expect((await axios.get(`${limitedURL}/templates`)).status).toEqual(200);
+      expect((await axios.get(`${limitedURL}/templates`, { validateStatus: () => true })).status).toEqual(429);
+    } finally {
+      await limitedServer.close();
+    }
+  });
+
+  it('Responds with 404 when leaving a waitlist with an unknown ticket', async () => {
+    const testingTown = await createTownForTesting(undefined, true);
+    const response = await axios.delete(`${serverURL}/towns/${testingTown.coveyTownID}/waitlist/${nanoid()}`,
+      { validateStatus: () => true });
+    expect(response.status).toEqual(404);
+    expect(response.data).toEqual({ isOK: false, errorCode: 'notFound', message: 'Error: No such waitlist ticket' });
+  });
+
+  it('Rejects conversation area updates with a malformed bounding box', async () => {
+    const testingTown = await createTownForTesting(undefined, true);
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID: testingTown.coveyTownID });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea, coveyTownID: testingTown.coveyTownID, sessionToken: testingSession.coveySessionToken,
+    });
+    const response = await axios.patch(`${serverURL}/towns/${testingTown.coveyTownID}/conversationAreas/${conversationArea.label}`, {
+      sessionToken: testingSession.coveySessionToken,
+      boundingBox: { ...conversationArea.boundingBox, x: 'oops' },
+    }, { validateStatus: () => true });
+    expect(response.status).toEqual(400);
+    expect(response.data.message).toEqual('Invalid request: boundingBox.x must be a number');
+    expect(CoveyTownsStore.getInstance().getControllerForTown(testingTown.coveyTownID)?.conversationAreas[0].boundingBox)
+      .toEqual(conversationArea.boundingBox);
+  });
+
+  it('Rejects malformed requests with 400 before they reach their handlers', async () => {
+    const townCreateSpy = jest.spyOn(requestHandlers, 'townCreateHandler');
+    const response = await axios.post(`${serverURL}/towns`, { isPubliclyListed: true }, { validateStatus: () => true });
+    expect(response.status).toEqual(400);
+    expect(response.data).toEqual({
+      isOK: false, errorCode: 'invalidRequest', message: 'Invalid request: friendlyName is required',
+    });
+    expect(townCreateSpy).not.toHaveBeenCalled();
+    townCreateSpy.mockRestore();
+
+    const joinResponse = await axios.post(`${serverURL}/sessions`, { userName: 42 }, { validateStatus: () => true });
+    expect(joinResponse.status).toEqual(400);
+  });
+
+  it('Maps failed requests to HTTP statuses, and surfaces their error codes as TownsServiceErrors', async () => {
+    const expectServiceError = async (request: Promise<unknown>, status: number, errorCode: ResponseErrorCode) => {
+      const error = await request.catch((e: TownsServiceError) => e) as TownsServiceError;
+      expect(error).toBeInstanceOf(TownsServiceError);
+      expect(error.status).toEqual(status);
+      expect(error.errorCode).toEqual(errorCode);
+    };
+    const testingTown = await createTownForTesting(undefined, true);
+    await expectServiceError(apiClient.updateTown({
+      coveyTownID: testingTown.coveyTownID, coveyTownPassword: nanoid(), friendlyName: nanoid(),
+    }), 403, 'invalidPassword');
+    await expectServiceError(apiClient.deleteTown({
+      coveyTownID: nanoid(), coveyTownPassword: nanoid(),
+    }), 404, 'notFound');
+    await expectServiceError(apiClient.joinTown({ userName: nanoid(), coveyTownID: nanoid() }), 404, 'notFound');
+    await expectServiceError(apiClient.createTown({
+      friendlyName: '', isPubliclyListed: true,
+    }), 400, 'invalidRequest');
+
+    const testingSession = await apiClient.joinTown({ userName: nanoid(), coveyTownID: testingTown.coveyTownID });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea, coveyTownID: testingTown.coveyTownID, sessionToken: testingSession.coveySessionToken,
+    });
+    await expectServiceError(apiClient.createConversationArea({
+      conversationArea, coveyTownID: testingTown.coveyTownID, sessionToken: testingSession.coveySessionToken,
+    }), 409, 'conflict');
+  });
+
+  it('Rejects conversation area updates and deletes with an invalid session token', async () => {
+    const testingTown = await createTownForTesting(undefined, true);
+    const testingSession = await apiClient.joinTown({
+      userName: nanoid(),
+      coveyTownID: testingTown.coveyTownID,
+    });
+    const conversationArea = createConversationForTesting();
+    await apiClient.createConversationArea({
+      conversationArea,
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: testingSession.coveySessionToken,
+    });
+    await expect(apiClient.updateConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: nanoid(),
+      conversationLabel: conversationArea.label,
+      topic: 'updated topic',
+    })).rejects.toThrow(`Error processing request: Unable to update conversation area ${conversationArea.label}`);
+    await expect(apiClient.deleteConversationArea({
+      coveyTownID: testingTown.coveyTownID,
+      sessionToken: nanoid(),
+      conversationLabel: conversationArea.label,
+    })).rejects.toThrow(`Error processing request: Unable to delete conversation area ${conversationArea.label}`);
+  });
 });
 
 describe('conversationAreaCreateHandler', () => {
@@ -163,4 +680,42 @@ describe('conversationAreaCreateHandler', () => {
     expect(res.isOK).toBeFalsy();
     expect(res.message).toEqual(`Unable to create conversation area ${conversationArea.label} with topic ${conversationArea.topic}`);
   });
-});
\ No newline at end of file
+
+  it('Requires the town update password to create a pinned conversation area', ()=>{
+    const { coveyTownID, conversationArea, validSession } = caCreateHandlerHelper();
+    conversationArea.isPinned = true;
+
+    mockCoveyTownController.getSessionByToken.mockReturnValueOnce(validSession);
+    mockCoveyTownStore.isValidTownPassword.mockReturnValueOnce(false);
+
+    const res = requestHandlers.conversationAreaCreateHandler({
+      conversationArea,
+      coveyTownID,
+      sessionToken: 'randomString',
+      coveyTownPassword: 'wrongPassword',
+    });
+
+    expect(mockCoveyTownStore.isValidTownPassword).toHaveBeenCalledWith(coveyTownID, 'wrongPassword');
+    expect(mockCoveyTownController.addConversationArea).not.toHaveBeenCalled();
+    expect(res.isOK).toBeFalsy();
+  });
+
+  it('Creates a pinned conversation area when given the town update password', ()=>{
+    const { coveyTownID, conversationArea, validSession } = caCreateHandlerHelper();
+    conversationArea.isPinned = true;
+
+    mockCoveyTownController.getSessionByToken.mockReturnValueOnce(validSession);
+    mockCoveyTownStore.isValidTownPassword.mockReturnValueOnce(true);
+    mockCoveyTownController.addConversationArea.mockReturnValueOnce(true);
+
+    const res = requestHandlers.conversationAreaCreateHandler({
+      conversationArea,
+      coveyTownID,
+      sessionToken: 'randomString',
+      coveyTownPassword: 'townPassword',
+    });
+
+    expect(mockCoveyTownController.addConversationArea).toHaveBeenCalledWith(conversationArea);
+    expect(res.isOK).toBeTruthy();
+  });
+});
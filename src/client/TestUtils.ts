@@ -11,6 +11,7 @@ import { BoundingBox, ServerConversationArea } from './TownsServiceClient';
 import CoveyTownController from '../lib/CoveyTownController';
 import Player from '../types/Player';
 import PlayerSession from '../types/PlayerSession';
+import { TiledMap } from '../types/TiledMap';
 
 export type RemoteServerPlayer = {
   location: UserLocation;
@@ -164,8 +165,8 @@ export function locInConversation(conversation: ServerConversationArea): UserLoc
   const loc: UserLocation = {
     moving: false,
     rotation: 'front',
-    x: 25,
-    y: 25,
+    x: conversation.boundingBox.x,
+    y: conversation.boundingBox.y,
     conversationLabel: conversation.label,
   };
   return loc;
@@ -175,8 +176,8 @@ export function anotherLocInConversation(conversation: ServerConversationArea):
   const loc: UserLocation = {
     moving: false,
     rotation: 'front',
-    x: 26,
-    y: 26,
+    x: conversation.boundingBox.x + 1,
+    y: conversation.boundingBox.y + 1,
     conversationLabel: conversation.label,
   };
   return loc;
@@ -247,4 +248,41 @@ export function caCreateHandlerHelper() : {
     player,
     validSession,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Creates a 10x10 Tiled map with 32x32 pixel tiles, surrounded by walls, with a single spawn point
+ * at (64, 64). The walls are in a layer that has the `collides` property.
+ */
+export function createTiledMapForTesting(): TiledMap {
+  const width = 10;
+  const height = 10;
+  const walls: number[] = [];
+  for (let row = 0; row < height; row += 1) {
+    for (let column = 0; column < width; column += 1) {
+      const isBorder = row === 0 || column === 0 || row === height - 1 || column === width - 1;
+      walls.push(isBorder ? 1 : 0);
+    }
+  }
+  return {
+    width,
+    height,
+    tilewidth: 32,
+    tileheight: 32,
+    tilesets: [{ firstgid: 1 }],
+    layers: [
+      { type: 'tilelayer', name: 'Floor', data: new Array(width * height).fill(1) },
+      {
+        type: 'tilelayer',
+        name: 'Walls',
+        data: walls,
+        properties: [{ name: 'collides', type: 'bool', value: true }],
+      },
+      {
+        type: 'objectgroup',
+        name: 'Objects',
+        objects: [{ name: 'Spawn Point', x: 64, y: 64 }],
+      },
+    ],
+  };
+}
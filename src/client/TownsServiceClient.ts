@@ -1,9 +1,24 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import assert from 'assert';
-import { UserLocation } from '../CoveyTypes';
+import {
+  AuditEvent, AuditEventType, ChatMessage, PlayerStatus, ResponseErrorCode, TownInvite, TownRole, TownSettings,
+  TownSettingsUpdate, UserLocation,
+} from '../CoveyTypes';
+import { TiledMap } from '../types/TiledMap';
+import { TownRecording } from '../types/TownRecording';
+import { TownSnapshot } from '../types/TownSnapshot';
+import TownsServiceError from './TownsServiceError';
 
 
-export type ServerPlayer = { _id: string, _userName: string, location: UserLocation };
+export type ServerPlayer = {
+  _id: string,
+  _userName: string,
+  location: UserLocation,
+  _isAway: boolean,
+  _status: PlayerStatus,
+  _statusMessage: string,
+  _avatar: string,
+};
 
 /**
  * A bounding box, with a coordinate system that matches the frontend game engine's coordinates
@@ -20,6 +35,8 @@ export type ServerConversationArea = {
   topic: string;
   occupantsByID: string[];
   boundingBox: BoundingBox;
+  /** Pinned conversation areas are not destroyed when their last occupant leaves */
+  isPinned?: boolean;
 };
 
 /**
@@ -28,8 +45,12 @@ export type ServerConversationArea = {
 export interface TownJoinRequest {
   /** userName of the player that would like to join * */
   userName: string;
-  /** ID of the town that the player would like to join * */
-  coveyTownID: string;
+  /** ID of the town that the player would like to join, which may be left out if an invite token is provided * */
+  coveyTownID?: string;
+  /** Token of an invite to the town, which lets the player join without its join password * */
+  inviteToken?: string;
+  /** Password of the town, only required if the town has a join password * */
+  joinPassword?: string;
 }
 
 /**
@@ -37,6 +58,8 @@ export interface TownJoinRequest {
  * middleware
  */
 export interface TownJoinResponse {
+  /** ID of the town that the player joined * */
+  coveyTownID: string;
   /** Unique ID that represents this player * */
   coveyUserID: string;
   /** Secret token that this player should use to authenticate
@@ -53,6 +76,52 @@ export interface TownJoinResponse {
   isPubliclyListed: boolean;
   /** Conversation areas */
   conversationAreas: ServerConversationArea[];
+  /** Most recent chat messages sent in this town, oldest first */
+  chatHistory: ChatMessage[];
+  /** Settings of this town */
+  settings: TownSettings;
+  /** Role that this player has in this town */
+  role: TownRole;
+}
+
+/**
+ * Payload sent by the client to wait for a spot in a Town that is full
+ */
+export interface WaitlistJoinRequest {
+  /** userName of the player that would like to join * */
+  userName: string;
+  /** ID of the town that the player would like to join * */
+  coveyTownID: string;
+  /** Password of the town, only required if the town has a join password * */
+  joinPassword?: string;
+}
+
+/**
+ * Response from the server for a waitlist join request
+ */
+export interface WaitlistJoinResponse {
+  /** Secret ticket that identifies this client's place on the waitlist * */
+  waitlistTicket: string;
+  /** Position on the waitlist, starting at 1, or 0 if the player has already been admitted * */
+  position: number;
+}
+
+/**
+ * Payload sent by the client to check on (or give up) its place on a Town's waitlist
+ */
+export interface WaitlistStatusRequest {
+  coveyTownID: string;
+  waitlistTicket: string;
+}
+
+/**
+ * Response from the server for a waitlist status request
+ */
+export interface WaitlistStatusResponse {
+  /** Position on the waitlist, starting at 1, or 0 if the player has been admitted * */
+  position: number;
+  /** Once the player has been admitted, the same response as if they had joined the town * */
+  admission?: TownJoinResponse;
 }
 
 /**
@@ -61,6 +130,18 @@ export interface TownJoinResponse {
 export interface TownCreateRequest {
   friendlyName: string;
   isPubliclyListed: boolean;
+  /** Optional Tiled map of the world that the town takes place in */
+  map?: TiledMap;
+  /** Optional settings for the town; the defaults are used for any settings that are not included */
+  settings?: Partial<TownSettings>;
+  /** Optional password that players must provide to join the town, distinct from its update password */
+  joinPassword?: string;
+  /** Optional ID of an existing town whose layout and settings are copied into the new town */
+  sourceTownID?: string;
+  /** Update password of the source town, required when a sourceTownID is provided */
+  sourceTownPassword?: string;
+  /** Optional name of a saved template whose layout and settings are copied into the new town */
+  templateName?: string;
 }
 
 /**
@@ -86,6 +167,157 @@ export interface TownDeleteRequest {
   coveyTownPassword: string;
 }
 
+/**
+ * Payload sent by the client to remove (kick) or ban a player from a Town
+ */
+export interface PlayerModerationRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  /** ID of the player to remove * */
+  playerID: string;
+}
+
+/**
+ * Payload sent by the client to create an invite to a Town
+ */
+export interface InviteCreateRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  /** Time after which the invite may no longer be used, in ms since the epoch; never expires if not included */
+  expiresAt?: number;
+  /** Number of times that the invite may be used; no limit if not included */
+  maxUses?: number;
+  /** Role that players who join with the invite are given; 'member' if not included */
+  role?: TownRole;
+}
+
+/**
+ * Response from the server for an invite create request
+ */
+export interface InviteCreateResponse {
+  invite: TownInvite;
+}
+
+/**
+ * Payload sent by the client to list the invites to a Town
+ */
+export interface InviteListRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for an invite list request
+ */
+export interface InviteListResponse {
+  /** Invites that may still be used * */
+  invites: TownInvite[];
+}
+
+/**
+ * Payload sent by the client to revoke an invite to a Town
+ */
+export interface InviteRevokeRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  inviteToken: string;
+}
+
+/**
+ * Payload sent by the client to export a snapshot of a Town's configuration
+ */
+export interface TownExportRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for a Town export request
+ */
+export interface TownExportResponse {
+  snapshot: TownSnapshot;
+}
+
+/**
+ * Payload sent by the client to create a new Town from a snapshot of another Town's configuration
+ */
+export interface TownImportRequest {
+  snapshot: TownSnapshot;
+  isPubliclyListed: boolean;
+}
+
+/**
+ * Payload sent by the client to start or stop recording the events of a Town
+ */
+export interface RecordingRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for a request to stop recording a Town
+ */
+export interface RecordingStopResponse {
+  recording: TownRecording;
+}
+
+/**
+ * Payload sent by the client to create a read-only Town that replays a recording of another Town
+ */
+export interface ReplayCreateRequest {
+  recording: TownRecording;
+  isPubliclyListed: boolean;
+  /** How many times faster than the original pace to replay the recording; defaults to 1 * */
+  speed?: number;
+}
+
+/**
+ * Payload sent by the client to fetch the audit log of a Town
+ */
+export interface AuditLogRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  /** Only include events of these types * */
+  types?: AuditEventType[];
+  /** Only include events at or after this time, in ms since the epoch * */
+  since?: number;
+  /** Only include events at or before this time, in ms since the epoch * */
+  until?: number;
+}
+
+/**
+ * Response from the server for an audit log request
+ */
+export interface AuditLogResponse {
+  /** Matching events, oldest first * */
+  events: AuditEvent[];
+}
+
+/**
+ * Payload sent by the client to save a snapshot of a Town's configuration as a named template
+ */
+export interface TemplateCreateRequest {
+  templateName: string;
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for a template list request
+ */
+export interface TemplateListResponse {
+  templates: string[];
+}
+
+/**
+ * Payload sent by the client to replace the map of a Town
+ */
+export interface TownMapUpdateRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  map: TiledMap;
+}
+
 /**
  * Payload sent by the client to update a Town.
  * N.B., JavaScript is terrible, so:
@@ -96,6 +328,10 @@ export interface TownUpdateRequest {
   coveyTownPassword: string;
   friendlyName?: string;
   isPubliclyListed?: boolean;
+  /** Settings of the town to change, if any; optional settings that are null are removed */
+  settings?: TownSettingsUpdate;
+  /** New join password for the town, or an empty string to remove its join password */
+  joinPassword?: string;
 }
 
 /**
@@ -105,6 +341,43 @@ export interface ConversationAreaCreateRequest {
   coveyTownID: string;
   sessionToken: string;
   conversationArea: ServerConversationArea;
+  /**
+   * Town update password, only required to create a pinned conversation area, or to create any
+   * conversation area in a town where only the owner may create them
+   */
+  coveyTownPassword?: string;
+}
+
+/**
+ * Payload sent by the client to change the topic and/or bounding box of a conversation area
+ */
+export interface ConversationAreaUpdateRequest {
+  coveyTownID: string;
+  sessionToken: string;
+  conversationLabel: string;
+  topic?: string;
+  boundingBox?: BoundingBox;
+  isPinned?: boolean;
+  /**
+   * Town update password, only required to pin or unpin the conversation area, to change a pinned
+   * conversation area, or to change any conversation area of a town in which only the owner may
+   * create them
+   */
+  coveyTownPassword?: string;
+}
+
+/**
+ * Payload sent by the client to delete a conversation area
+ */
+export interface ConversationAreaDeleteRequest {
+  coveyTownID: string;
+  sessionToken: string;
+  conversationLabel: string;
+  /**
+   * Town update password, only required to delete a pinned conversation area, or any conversation
+   * area of a town in which only the owner may create them
+   */
+  coveyTownPassword?: string;
 }
 
 /**
@@ -113,6 +386,7 @@ export interface ConversationAreaCreateRequest {
 export interface ResponseEnvelope<T> {
   isOK: boolean;
   message?: string;
+  errorCode?: ResponseErrorCode;
   response?: T;
 }
 
@@ -120,7 +394,9 @@ export type CoveyTownInfo = {
   friendlyName: string;
   coveyTownID: string;
   currentOccupancy: number;
-  maximumOccupancy: number
+  maximumOccupancy: number;
+  /** Whether players must provide the town's join password to join it */
+  requiresJoinPassword: boolean;
 };
 
 export default class TownsServiceClient {
@@ -134,9 +410,18 @@ export default class TownsServiceClient {
   constructor(serviceURL?: string) {
     const baseURL = serviceURL || process.env.REACT_APP_TOWNS_SERVICE_URL;
     assert(baseURL);
-    this._axios = axios.create({ baseURL });
+    this._axios = axios.create({
+      baseURL,
+      // Failed requests are answered with a ResponseEnvelope that unwrapOrThrowError turns into a
+      // TownsServiceError; only unexpected server errors are left for axios to throw
+      validateStatus: status => status < 500 || status === 503,
+    });
   }
 
+  /**
+   * Unwraps the response to a request, throwing a TownsServiceError (with the status and error
+   * code of the response) if the request failed
+   */
   static unwrapOrThrowError<T>(response: AxiosResponse<ResponseEnvelope<T>>, ignoreResponse = false): T {
     if (response.data.isOK) {
       if (ignoreResponse) {
@@ -145,7 +430,8 @@ export default class TownsServiceClient {
       assert(response.data.response);
       return response.data.response;
     }
-    throw new Error(`Error processing request: ${response.data.message}`);
+    throw new TownsServiceError(`Error processing request: ${response.data.message}`, response.status,
+      response.data.errorCode);
   }
 
   async createTown(requestData: TownCreateRequest): Promise<TownCreateResponse> {
@@ -158,6 +444,58 @@ export default class TownsServiceClient {
     return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
   }
 
+  async exportTown(requestData: TownExportRequest): Promise<TownExportResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<TownExportResponse>>(`/towns/${requestData.coveyTownID}/export/${requestData.coveyTownPassword}`);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async importTown(requestData: TownImportRequest): Promise<TownCreateResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<TownCreateResponse>>('/towns/import', requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async startRecording(requestData: RecordingRequest): Promise<void> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/recording`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async stopRecording(requestData: RecordingRequest): Promise<RecordingStopResponse> {
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<RecordingStopResponse>>(`/towns/${requestData.coveyTownID}/recording/${requestData.coveyTownPassword}`);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async createReplay(requestData: ReplayCreateRequest): Promise<TownCreateResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<TownCreateResponse>>('/replays', requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async getAuditLog(requestData: AuditLogRequest): Promise<AuditLogResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<AuditLogResponse>>(`/towns/${requestData.coveyTownID}/audit`, {
+      params: {
+        coveyTownPassword: requestData.coveyTownPassword,
+        type: requestData.types?.join(','),
+        since: requestData.since,
+        until: requestData.until,
+      },
+    });
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async createTemplate(requestData: TemplateCreateRequest): Promise<void> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>('/templates', requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async listTemplates(): Promise<TemplateListResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<TemplateListResponse>>('/templates');
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async updateTownMap(requestData: TownMapUpdateRequest): Promise<void> {
+    const responseWrapper = await this._axios.put<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/map`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
   async deleteTown(requestData: TownDeleteRequest): Promise<void> {
     const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/${requestData.coveyTownPassword}`);
     return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
@@ -173,9 +511,60 @@ export default class TownsServiceClient {
     return TownsServiceClient.unwrapOrThrowError(responseWrapper);
   }
 
+  async kickPlayer(requestData: PlayerModerationRequest): Promise<void> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/players/${requestData.playerID}/kick`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async banPlayer(requestData: PlayerModerationRequest): Promise<void> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/players/${requestData.playerID}/ban`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async createInvite(requestData: InviteCreateRequest): Promise<InviteCreateResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<InviteCreateResponse>>(`/towns/${requestData.coveyTownID}/invites`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async listInvites(requestData: InviteListRequest): Promise<InviteListResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<InviteListResponse>>(`/towns/${requestData.coveyTownID}/invites/${requestData.coveyTownPassword}`);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async revokeInvite(requestData: InviteRevokeRequest): Promise<void> {
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/invites/${requestData.inviteToken}/${requestData.coveyTownPassword}`);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async joinWaitlist(requestData: WaitlistJoinRequest): Promise<WaitlistJoinResponse> {
+    const responseWrapper = await this._axios.post<ResponseEnvelope<WaitlistJoinResponse>>(`/towns/${requestData.coveyTownID}/waitlist`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async getWaitlistStatus(requestData: WaitlistStatusRequest): Promise<WaitlistStatusResponse> {
+    const responseWrapper = await this._axios.get<ResponseEnvelope<WaitlistStatusResponse>>(`/towns/${requestData.coveyTownID}/waitlist/${requestData.waitlistTicket}`);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper);
+  }
+
+  async leaveWaitlist(requestData: WaitlistStatusRequest): Promise<void> {
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/waitlist/${requestData.waitlistTicket}`);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
   async createConversationArea(requestData: ConversationAreaCreateRequest) : Promise<void>{
     const responseWrapper = await this._axios.post(`/towns/${requestData.coveyTownID}/conversationAreas`, requestData);
     return TownsServiceClient.unwrapOrThrowError(responseWrapper);
   }
 
+  async updateConversationArea(requestData: ConversationAreaUpdateRequest): Promise<void> {
+    const responseWrapper = await this._axios.patch<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/conversationAreas/${encodeURIComponent(requestData.conversationLabel)}`, requestData);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
+  async deleteConversationArea(requestData: ConversationAreaDeleteRequest): Promise<void> {
+    const passwordPath = requestData.coveyTownPassword !== undefined ? `/${requestData.coveyTownPassword}` : '';
+    const responseWrapper = await this._axios.delete<ResponseEnvelope<void>>(`/towns/${requestData.coveyTownID}/conversationAreas/${encodeURIComponent(requestData.conversationLabel)}/${requestData.sessionToken}${passwordPath}`);
+    return TownsServiceClient.unwrapOrThrowError(responseWrapper, true);
+  }
+
 }
@@ -0,0 +1,33 @@
+import { ResponseErrorCode } from '../CoveyTypes';
+
+/**
+ * An error that the towns service responded to a request with, which carries the machine-readable
+ * reason that the request failed, so that clients do not need to match on its message
+ */
+export default class TownsServiceError extends Error {
+  private readonly _status: number;
+
+  private readonly _errorCode?: ResponseErrorCode;
+
+  /**
+   * @param message human-readable description of the error
+   * @param status HTTP status of the service's response
+   * @param errorCode reason that the request failed, if the service provided one
+   */
+  constructor(message: string, status: number, errorCode?: ResponseErrorCode) {
+    super(message);
+    // Errors lose their prototype when compiled to ES5, which would break instanceof checks
+    Object.setPrototypeOf(this, TownsServiceError.prototype);
+    this.name = 'TownsServiceError';
+    this._status = status;
+    this._errorCode = errorCode;
+  }
+
+  get status(): number {
+    return this._status;
+  }
+
+  get errorCode(): ResponseErrorCode | undefined {
+    return this._errorCode;
+  }
+}
@@ -0,0 +1,41 @@
+import { nanoid } from 'nanoid';
+import AuditLog from './AuditLog';
+import Player from '../types/Player';
+
+describe('AuditLog', () => {
+  it('discards the oldest events once it is full', () => {
+    const auditLog = new AuditLog(2);
+    const coveyTownID = nanoid();
+    auditLog.record({ coveyTownID, type: 'townCreated', timestamp: 1 });
+    auditLog.record({ coveyTownID, type: 'townUpdated', timestamp: 2 });
+    auditLog.record({ coveyTownID, type: 'townDeleted', timestamp: 3 });
+    expect(auditLog.getEvents(coveyTownID).map(event => event.type)).toEqual(['townUpdated', 'townDeleted']);
+  });
+  it('only returns the events of the requested town that match the filter', () => {
+    const auditLog = new AuditLog(10);
+    const coveyTownID = nanoid();
+    auditLog.record({ coveyTownID, type: 'townCreated', timestamp: 1 });
+    auditLog.record({ coveyTownID, type: 'mapUpdated', timestamp: 2 });
+    auditLog.record({ coveyTownID: nanoid(), type: 'mapUpdated', timestamp: 2 });
+    auditLog.record({ coveyTownID, type: 'mapUpdated', timestamp: 3 });
+    auditLog.record({ coveyTownID, type: 'townUpdated', timestamp: 4 });
+
+    expect(auditLog.getEvents(coveyTownID, { types: ['mapUpdated'] }).map(event => event.timestamp))
+      .toEqual([2, 3]);
+    expect(auditLog.getEvents(coveyTownID, { since: 2, until: 3 }).map(event => event.timestamp))
+      .toEqual([2, 3]);
+    expect(auditLog.getEvents(coveyTownID, { types: ['townCreated', 'townUpdated'], since: 2 }))
+      .toEqual([{ coveyTownID, type: 'townUpdated', timestamp: 4 }]);
+  });
+  it('records players joining and leaving through its town listener', () => {
+    const auditLog = new AuditLog(10);
+    const coveyTownID = nanoid();
+    const listener = auditLog.townListener(coveyTownID);
+    const player = new Player(nanoid());
+    listener.onPlayerJoined(player);
+    listener.onPlayerMoved(player);
+    listener.onPlayerDisconnected(player);
+    expect(auditLog.getEvents(coveyTownID).map(event => [event.type, event.actorID]))
+      .toEqual([['playerJoined', player.id], ['playerLeft', player.id]]);
+  });
+});
@@ -0,0 +1,95 @@
+import { AuditEvent, AuditEventType } from '../CoveyTypes';
+import CoveyTownListener from '../types/CoveyTownListener';
+
+/** Every type of audit event, used to validate requested filters */
+export const AUDIT_EVENT_TYPES: AuditEventType[] = [
+  'townCreated', 'townUpdated', 'townDeleted', 'mapUpdated',
+  'playerJoined', 'playerLeft', 'playerKicked', 'playerBanned',
+  'inviteCreated', 'inviteRevoked',
+  'conversationAreaCreated', 'conversationAreaUpdated', 'conversationAreaDeleted',
+];
+
+/** Number of events kept in the audit log, across all towns, when AUDIT_LOG_SIZE is not set */
+export const DEFAULT_AUDIT_LOG_SIZE = 10000;
+
+/**
+ * Criteria for selecting events from the audit log; events must match every criterion that is set
+ */
+export type AuditEventFilter = {
+  /** Only include events of these types */
+  types?: AuditEventType[];
+  /** Only include events at or after this time, in ms since the epoch */
+  since?: number;
+  /** Only include events at or before this time, in ms since the epoch */
+  until?: number;
+};
+
+/**
+ * A bounded, in-memory log of the actions that were taken in each town. Once the log is full,
+ * the oldest events are discarded to make room for new ones.
+ */
+export default class AuditLog {
+  private _events: AuditEvent[] = [];
+
+  private readonly _maxEvents: number;
+
+  /**
+   * @param maxEvents the number of events to keep, across all towns
+   */
+  constructor(maxEvents = Number(process.env.AUDIT_LOG_SIZE) || DEFAULT_AUDIT_LOG_SIZE) {
+    this._maxEvents = maxEvents;
+  }
+
+  /**
+   * Adds an event to the log, discarding the oldest event if the log is full
+   * @param event 
+   */
+  record(event: AuditEvent): void {
+    this._events.push(event);
+    if (this._events.length > this._maxEvents) {
+      this._events = this._events.slice(this._events.length - this._maxEvents);
+    }
+  }
+
+  /**
+   * Fetch the events of a town that match a filter
+   * @param coveyTownID 
+   * @param filter 
+   * @returns the matching events, oldest first
+   */
+  getEvents(coveyTownID: string, filter: AuditEventFilter = {}): AuditEvent[] {
+    return this._events.filter(event => event.coveyTownID === coveyTownID
+      && (filter.types === undefined || filter.types.includes(event.type))
+      && (filter.since === undefined || event.timestamp >= filter.since)
+      && (filter.until === undefined || event.timestamp <= filter.until));
+  }
+
+  /**
+   * Creates a listener that records the players joining and leaving a town in this log
+   * @param coveyTownID the town that the listener will be subscribed to
+   */
+  townListener(coveyTownID: string): CoveyTownListener {
+    const recordPlayerEvent = (type: AuditEventType, actorID: string, details: string) => this.record({
+      coveyTownID, type, timestamp: Date.now(), actorID, details,
+    });
+    return {
+      onPlayerJoined(newPlayer) {
+        recordPlayerEvent('playerJoined', newPlayer.id, `${newPlayer.userName} joined the town`);
+      },
+      onPlayerDisconnected(removedPlayer) {
+        recordPlayerEvent('playerLeft', removedPlayer.id, `${removedPlayer.userName} left the town`);
+      },
+      onPlayerMoved() {},
+      onTownDestroyed() {},
+      onConversationAreaUpdated() {},
+      onConversationAreaDestroyed() {},
+      onChatMessage() {},
+      onChatHistory() {},
+      onDirectMessage() {},
+      onPlayerAwayStatusChanged() {},
+      onPlayerProfileUpdated() {},
+      onPlayerKicked() {},
+      onServerShuttingDown() {},
+    };
+  }
+}
@@ -5,10 +5,13 @@ import TwilioVideo from './TwilioVideo';
 import Player from '../types/Player';
 import CoveyTownController from './CoveyTownController';
 import CoveyTownListener from '../types/CoveyTownListener';
+import WaitlistListener from '../types/WaitlistListener';
 import { UserLocation } from '../CoveyTypes';
 import PlayerSession from '../types/PlayerSession';
 import { townSubscriptionHandler } from '../requestHandlers/CoveyTownRequestHandlers';
 import CoveyTownsStore from './CoveyTownsStore';
+import TownMap from './TownMap';
+import { BoundingBox, ServerConversationArea } from '../client/TownsServiceClient';
 import {
   createConversationForTesting,
   locInConversation,
@@ -17,6 +20,7 @@ import {
   anotherLocInConversation,
   createUserLocation,
   twoConversationsTwoPlayers,
+  createTiledMapForTesting,
 } from '../client/TestUtils';
 
 const mockTwilioVideo = mockDeep<TwilioVideo>();
@@ -83,8 +87,8 @@ describe('CoveyTownController', () => {
       const newLocation: UserLocation = {
         moving: false,
         rotation: 'front',
-        x: 25,
-        y: 25,
+        x: 10,
+        y: 10,
         conversationLabel: newConversationArea.label,
       };
       testingTown.updatePlayerLocation(player, newLocation);
@@ -208,6 +212,14 @@ describe('CoveyTownController', () => {
         expect(mockSocket.emit).toBeCalledWith('townClosing');
         expect(mockSocket.disconnect).toBeCalledWith(true);
       });
+      it('should add a town listener, which should emit "kicked" to the socket and disconnect it when the player is banned', async () => {
+        setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        expect(testingTown.banPlayer(player.id)).toBe(true);
+        expect(mockSocket.emit).toBeCalledWith('kicked', { reason: 'banned' });
+        expect(mockSocket.disconnect).toBeCalledWith(true);
+        expect(testingTown.getSessionByToken(session.sessionToken)).toBeUndefined();
+      });
       describe('when a socket disconnect event is fired', () => {
         it('should remove the town listener for that socket, and stop sending events to it', async () => {
           setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
@@ -224,7 +236,8 @@ describe('CoveyTownController', () => {
             fail('No disconnect handler registered');
           }
         });
-        it('should destroy the session corresponding to that socket', async () => {
+        it('should destroy the session corresponding to that socket once the grace period expires', async () => {
+          jest.useFakeTimers();
           setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
           townSubscriptionHandler(mockSocket);
 
@@ -232,6 +245,9 @@ describe('CoveyTownController', () => {
           const disconnectHandler = mockSocket.on.mock.calls.find(call => call[0] === 'disconnect');
           if (disconnectHandler && disconnectHandler[1]) {
             disconnectHandler[1]();
+            expect(testingTown.getSessionByToken(session.sessionToken)).toBe(session);
+            jest.advanceTimersByTime(testingTown.sessionGracePeriod);
+            jest.useRealTimers();
             mockReset(mockSocket);
             setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
             townSubscriptionHandler(mockSocket);
@@ -240,6 +256,31 @@ describe('CoveyTownController', () => {
             fail('No disconnect handler registered');
           }
         });
+        it('should let the client reconnect to the same session during the grace period', async () => {
+          const otherListener = mock<CoveyTownListener>();
+          testingTown.addTownListener(otherListener);
+          session.videoToken = nanoid();
+          setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+          townSubscriptionHandler(mockSocket);
+
+          const disconnectHandler = mockSocket.on.mock.calls.find(call => call[0] === 'disconnect');
+          if (disconnectHandler && disconnectHandler[1]) {
+            disconnectHandler[1]();
+            mockReset(mockSocket);
+            setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+            townSubscriptionHandler(mockSocket);
+            expect(mockSocket.disconnect).not.toHaveBeenCalled();
+            expect(mockSocket.emit).toHaveBeenCalledWith('sessionResumed', expect.objectContaining({
+              coveySessionToken: session.sessionToken,
+              coveyUserID: player.id,
+            }));
+            expect(session.gracePeriodTimer).toBeUndefined();
+            expect(testingTown.players).toContain(player);
+            expect(otherListener.onPlayerDisconnected).not.toHaveBeenCalled();
+          } else {
+            fail('No disconnect handler registered');
+          }
+        });
       });
       it('should forward playerMovement events from the socket to subscribed listeners', async () => {
         setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
@@ -259,6 +300,98 @@ describe('CoveyTownController', () => {
           fail('No playerMovement handler registered');
         }
       });
+      it('should send a locationCorrection to the socket, and not forward, invalid playerMovement events', async () => {
+        setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const mockListener = mock<CoveyTownListener>();
+        testingTown.addTownListener(mockListener);
+        const playerMovementHandler = mockSocket.on.mock.calls.find(
+          call => call[0] === 'playerMovement',
+        );
+        if (playerMovementHandler && playerMovementHandler[1]) {
+          playerMovementHandler[1](createUserLocation(NaN, 10));
+          expect(mockListener.onPlayerMoved).not.toHaveBeenCalled();
+          expect(mockSocket.emit).toHaveBeenCalledWith('locationCorrection', player.location);
+        } else {
+          fail('No playerMovement handler registered');
+        }
+      });
+      it('should forward chatMessage events from the socket to subscribed listeners', async () => {
+        setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const chatMessageHandler = mockSocket.on.mock.calls.find(call => call[0] === 'chatMessage');
+        if (chatMessageHandler && chatMessageHandler[1]) {
+          chatMessageHandler[1]({ body: 'hello' });
+          expect(mockSocket.emit).toHaveBeenCalledWith('chatMessage', expect.objectContaining({
+            authorID: player.id,
+            body: 'hello',
+          }));
+        } else {
+          fail('No chatMessage handler registered');
+        }
+      });
+      it('should drop socket events that are sent too quickly, and emit "throttled" to the socket', async () => {
+        setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const heartbeatHandler = mockSocket.on.mock.calls.find(call => call[0] === 'heartbeat');
+        if (heartbeatHandler && heartbeatHandler[1]) {
+          // The default burst allows 120 events at once
+          for (let i = 0; i < 120; i += 1) {
+            heartbeatHandler[1]();
+          }
+          expect(mockSocket.emit).not.toHaveBeenCalledWith('throttled', expect.anything());
+          heartbeatHandler[1]();
+          expect(mockSocket.emit).toHaveBeenCalledWith('throttled', {
+            event: 'heartbeat', retryAfterMs: expect.any(Number),
+          });
+        } else {
+          fail('No heartbeat handler registered');
+        }
+      });
+      it('should send chatMessageRejected to the socket for invalid chatMessage events', async () => {
+        setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const chatMessageHandler = mockSocket.on.mock.calls.find(call => call[0] === 'chatMessage');
+        if (chatMessageHandler && chatMessageHandler[1]) {
+          chatMessageHandler[1]({ body: '' });
+          expect(mockSocket.emit).toHaveBeenCalledWith('chatMessageRejected', { body: '' });
+          expect(testingTown.chatHistory).toEqual([]);
+        } else {
+          fail('No chatMessage handler registered');
+        }
+      });
+      it('should acknowledge directMessage events with an error if the recipient is not connected', async () => {
+        setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const directMessageHandler = mockSocket.on.mock.calls.find(call => call[0] === 'directMessage');
+        if (directMessageHandler && directMessageHandler[1]) {
+          const recipient = new Player(nanoid());
+          await testingTown.addPlayer(recipient);
+          const acknowledge = jest.fn();
+          directMessageHandler[1]({ recipientID: recipient.id, body: 'hello' }, acknowledge);
+          expect(acknowledge).toHaveBeenCalledWith({ isOK: false, message: 'Recipient is not connected to this town' });
+        } else {
+          fail('No directMessage handler registered');
+        }
+      });
+      it('should deliver directMessage events to the recipient and acknowledge them', async () => {
+        setSessionTokenAndTownID(testingTown.coveyTownID, session.sessionToken, mockSocket);
+        townSubscriptionHandler(mockSocket);
+        const directMessageHandler = mockSocket.on.mock.calls.find(call => call[0] === 'directMessage');
+        if (directMessageHandler && directMessageHandler[1]) {
+          const recipient = new Player(nanoid());
+          await testingTown.addPlayer(recipient);
+          const recipientListener = mock<CoveyTownListener>();
+          testingTown.addTownListener(recipientListener, recipient.id);
+          const acknowledge = jest.fn();
+          directMessageHandler[1]({ recipientID: recipient.id, body: 'hello' }, acknowledge);
+          const delivered = expect.objectContaining({ recipientID: recipient.id, body: 'hello' });
+          expect(recipientListener.onDirectMessage).toHaveBeenCalledWith(delivered);
+          expect(acknowledge).toHaveBeenCalledWith({ isOK: true, response: delivered });
+        } else {
+          fail('No directMessage handler registered');
+        }
+      });
     });
   });
   
@@ -270,8 +403,8 @@ describe('CoveyTownController', () => {
       testingTown = new CoveyTownController(townName, false);
       mockListener = mock<CoveyTownListener>();
     });
-    it('should respect the conversation area reported by players userLocation.conversationLabel' +
-    ', and not override it based on the players x,y location', async () => {
+    it('should derive the conversation area from the players x,y location' +
+    ', and report it back in userLocation.conversationLabel', async () => {
       const newConversationArea = createConversationForTesting({
         boundingBox: { x: 10, y: 10, height: 5, width: 5 },
       });
@@ -283,20 +416,44 @@ describe('CoveyTownController', () => {
       const newLocation: UserLocation = {
         moving: false,
         rotation: 'front',
-        x: 25,
-        y: 25,
-        conversationLabel: newConversationArea.label,
+        x: 10,
+        y: 10,
       };
       testingTown.updatePlayerLocation(player, newLocation);
       expect(player.activeConversationArea?.label).toEqual(newConversationArea.label);
       expect(player.activeConversationArea?.topic).toEqual(newConversationArea.topic);
       expect(player.activeConversationArea?.boundingBox).toEqual(newConversationArea.boundingBox);
+      expect(player.location.conversationLabel).toEqual(newConversationArea.label);
 
       const areas = testingTown.conversationAreas;
       expect(areas[0].occupantsByID.length).toBe(1);
       expect(areas[0].occupantsByID[0]).toBe(player.id);
     });
 
+    it('should not trust a conversationLabel reported by a player outside of that conversation area', async () => {
+      const newConversationArea = createConversationForTesting({
+        boundingBox: { x: 10, y: 10, height: 5, width: 5 },
+      });
+      testingTown.addConversationArea(newConversationArea);
+      testingTown.addTownListener(mockListener);
+      const player = new Player(nanoid());
+      await testingTown.addPlayer(player);
+
+      const newLocation: UserLocation = {
+        moving: false,
+        rotation: 'front',
+        x: 25,
+        y: 25,
+        conversationLabel: newConversationArea.label,
+      };
+      testingTown.updatePlayerLocation(player, newLocation);
+      expect(player.activeConversationArea).toBeUndefined();
+      expect(player.location.conversationLabel).toBeUndefined();
+      expect(newConversationArea.occupantsByID).toEqual([]);
+      expect(mockListener.onConversationAreaUpdated).not.toHaveBeenCalled();
+      expect(mockListener.onPlayerMoved).toHaveBeenCalledWith(player);
+    });
+
     it('should not emit an onConversationUpdated event when a player does not enter a conversation', async () => {
       testingTown.addTownListener(mockListener);
       const player = new Player(nanoid());
@@ -407,6 +564,16 @@ describe('CoveyTownController', () => {
       expect(testingTown.addConversationArea(conversation)).toBe(false);
     });
 
+    it('returns false when adding a conversation whose bounding box does not have a positive size', () => {
+      expect(testingTown.addConversationArea(createConversationForTesting({
+        boundingBox: { x: 10, y: 10, height: 5, width: -5 },
+      }))).toBe(false);
+      expect(testingTown.addConversationArea(createConversationForTesting({
+        boundingBox: { x: 10, y: 10, height: 0, width: 5 },
+      }))).toBe(false);
+      expect(testingTown.conversationAreas).toEqual([]);
+    });
+
     it('returns false when adding a conversation with existing label', async () => {
       const someLabel = 'carolinesConvo';
       const conversation = createConversationForTesting({
@@ -585,4 +752,982 @@ describe('CoveyTownController', () => {
       expect(playerInQ4.activeConversationArea).toEqual(conversation);
     });
   });
+
+  describe('updateConversationArea', () => {
+    let testingTown: CoveyTownController;
+    let mockListener: CoveyTownListener;
+    beforeEach(() => {
+      const townName = `updateConversationArea test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      mockListener = mock<CoveyTownListener>();
+    });
+
+    it('returns false when there is no conversation area with the given label', () => {
+      expect(testingTown.updateConversationArea(nanoid(), nanoid())).toBe(false);
+    });
+
+    it('changes the topic and notifies listeners', () => {
+      const conversation = createConversationForTesting();
+      testingTown.addConversationArea(conversation);
+      testingTown.addTownListener(mockListener);
+
+      expect(testingTown.updateConversationArea(conversation.label, 'new topic')).toBe(true);
+      expect(testingTown.conversationAreas[0].topic).toEqual('new topic');
+      expect(mockListener.onConversationAreaUpdated).toHaveBeenCalledWith(conversation);
+    });
+
+    it('returns false when changing the topic to an empty topic', () => {
+      const conversation = createConversationForTesting({ conversationTopic: 'old topic' });
+      testingTown.addConversationArea(conversation);
+      expect(testingTown.updateConversationArea(conversation.label, '')).toBe(false);
+      expect(testingTown.conversationAreas[0].topic).toEqual('old topic');
+    });
+
+    it('returns false when the new bounding box overlaps another conversation area', () => {
+      const conversation = createConversationForTesting();
+      const otherConversation = createConversationForTesting({
+        boundingBox: { x: 100, y: 100, height: 10, width: 10 },
+      });
+      testingTown.addConversationArea(conversation);
+      testingTown.addConversationArea(otherConversation);
+
+      expect(testingTown.updateConversationArea(conversation.label, undefined,
+        { x: 105, y: 105, height: 10, width: 10 })).toBe(false);
+      expect(testingTown.conversationAreas[0].boundingBox).toEqual({ height: 100, width: 100, x: 400, y: 400 });
+    });
+
+    it('returns false when the new bounding box is not valid', () => {
+      const conversation = createConversationForTesting();
+      testingTown.addConversationArea(conversation);
+      const invalidBox = { x: 'oops', y: 410, height: 100, width: 100 } as unknown as BoundingBox;
+      expect(testingTown.updateConversationArea(conversation.label, undefined, invalidBox)).toBe(false);
+      expect(testingTown.updateConversationArea(conversation.label, undefined,
+        { x: 410, y: 410, height: 100, width: -100 })).toBe(false);
+      expect(testingTown.updateConversationArea(conversation.label, undefined,
+        { x: 410, y: 410, height: Infinity, width: 100 })).toBe(false);
+      expect(testingTown.conversationAreas[0].boundingBox).toEqual({ height: 100, width: 100, x: 400, y: 400 });
+    });
+
+    it('allows the new bounding box to overlap the old bounding box', () => {
+      const conversation = createConversationForTesting();
+      testingTown.addConversationArea(conversation);
+      const newBox = { x: 410, y: 410, height: 100, width: 100 };
+      expect(testingTown.updateConversationArea(conversation.label, undefined, newBox)).toBe(true);
+      expect(testingTown.conversationAreas[0].boundingBox).toEqual(newBox);
+    });
+
+    it('recomputes the occupants when the bounding box changes', async () => {
+      const leavingPlayer = new Player(nanoid());
+      await testingTown.addPlayer(leavingPlayer);
+      testingTown.updatePlayerLocation(leavingPlayer, createUserLocation(360, 360));
+      const joiningPlayer = new Player(nanoid());
+      await testingTown.addPlayer(joiningPlayer);
+      testingTown.updatePlayerLocation(joiningPlayer, createUserLocation(480, 480));
+      const conversation = createConversationForTesting();
+      testingTown.addConversationArea(conversation);
+      expect(conversation.occupantsByID).toEqual([leavingPlayer.id]);
+
+      expect(testingTown.updateConversationArea(conversation.label, undefined,
+        { x: 450, y: 450, height: 100, width: 100 })).toBe(true);
+      expect(conversation.occupantsByID).toEqual([joiningPlayer.id]);
+      expect(leavingPlayer.activeConversationArea).toBeUndefined();
+      expect(leavingPlayer.location.conversationLabel).toBeUndefined();
+      expect(joiningPlayer.activeConversationArea).toBe(conversation);
+      expect(joiningPlayer.location.conversationLabel).toEqual(conversation.label);
+    });
+
+    it('destroys an unpinned conversation area when the bounding box leaves it without occupants', async () => {
+      const player = new Player(nanoid());
+      await testingTown.addPlayer(player);
+      testingTown.updatePlayerLocation(player, createUserLocation(360, 360));
+      const conversation = createConversationForTesting();
+      testingTown.addConversationArea(conversation);
+      testingTown.addTownListener(mockListener);
+
+      expect(testingTown.updateConversationArea(conversation.label, undefined,
+        { x: 450, y: 450, height: 100, width: 100 })).toBe(true);
+      expect(testingTown.conversationAreas).toEqual([]);
+      expect(player.location.conversationLabel).toBeUndefined();
+      expect(mockListener.onConversationAreaDestroyed).toHaveBeenCalledWith(conversation);
+    });
+
+    it('keeps a pinned conversation area when the bounding box leaves it without occupants', async () => {
+      const player = new Player(nanoid());
+      await testingTown.addPlayer(player);
+      testingTown.updatePlayerLocation(player, createUserLocation(360, 360));
+      const conversation = createConversationForTesting();
+      conversation.isPinned = true;
+      testingTown.addConversationArea(conversation);
+
+      expect(testingTown.updateConversationArea(conversation.label, undefined,
+        { x: 450, y: 450, height: 100, width: 100 })).toBe(true);
+      expect(testingTown.conversationAreas).toEqual([conversation]);
+      expect(conversation.occupantsByID).toEqual([]);
+    });
+  });
+
+  describe('destroyConversationArea', () => {
+    let testingTown: CoveyTownController;
+    let mockListener: CoveyTownListener;
+    beforeEach(() => {
+      const townName = `destroyConversationArea test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      mockListener = mock<CoveyTownListener>();
+    });
+
+    it('returns false when there is no conversation area with the given label', () => {
+      expect(testingTown.destroyConversationArea(nanoid())).toBe(false);
+    });
+
+    it('removes the conversation area and its occupants, and notifies listeners', async () => {
+      const { conversation1, conversation2, player1, player2 } =
+        await twoConversationsTwoPlayers(testingTown, mockListener);
+      testingTown.updatePlayerLocation(player1, locInConversation(conversation1));
+      testingTown.updatePlayerLocation(player2, locInConversation(conversation1));
+
+      expect(testingTown.destroyConversationArea(conversation1.label)).toBe(true);
+      expect(testingTown.conversationAreas).toEqual([conversation2]);
+      expect(conversation1.occupantsByID).toEqual([]);
+      expect(player1.activeConversationArea).toBeUndefined();
+      expect(player1.location.conversationLabel).toBeUndefined();
+      expect(player2.activeConversationArea).toBeUndefined();
+      expect(mockListener.onConversationAreaDestroyed).toHaveBeenCalledWith(conversation1);
+    });
+  });
+
+  describe('pinned conversation areas', () => {
+    let testingTown: CoveyTownController;
+    let mockListener: CoveyTownListener;
+    beforeEach(() => {
+      const townName = `pinned conversation area test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      mockListener = mock<CoveyTownListener>();
+    });
+
+    it('keeps a pinned conversation area alive once its last occupant leaves', async () => {
+      const { conversation1, player1 } = await twoConversationsTwoPlayers(testingTown, mockListener);
+      testingTown.updateConversationArea(conversation1.label, undefined, undefined, true);
+      testingTown.updatePlayerLocation(player1, locInConversation(conversation1));
+      testingTown.updatePlayerLocation(player1, nonConversationAreaLoc());
+
+      expect(mockListener.onConversationAreaDestroyed).not.toHaveBeenCalled();
+      expect(testingTown.conversationAreas).toContain(conversation1);
+      expect(conversation1.occupantsByID).toEqual([]);
+    });
+
+    it('destroys an empty conversation area when it is unpinned', async () => {
+      const conversation = createConversationForTesting();
+      conversation.isPinned = true;
+      testingTown.addConversationArea(conversation);
+      testingTown.addTownListener(mockListener);
+
+      expect(testingTown.updateConversationArea(conversation.label, undefined, undefined, false)).toBe(true);
+      expect(testingTown.conversationAreas).toEqual([]);
+      expect(mockListener.onConversationAreaDestroyed).toHaveBeenCalledWith(conversation);
+    });
+
+    it('keeps an occupied conversation area when it is unpinned', async () => {
+      const { conversation1, player1 } = await twoConversationsTwoPlayers(testingTown, mockListener);
+      testingTown.updateConversationArea(conversation1.label, undefined, undefined, true);
+      testingTown.updatePlayerLocation(player1, locInConversation(conversation1));
+
+      expect(testingTown.updateConversationArea(conversation1.label, undefined, undefined, false)).toBe(true);
+      expect(testingTown.conversationAreas).toContain(conversation1);
+      expect(conversation1.isPinned).toBe(false);
+    });
+  });
+
+  describe('movePlayer', () => {
+    let testingTown: CoveyTownController;
+    let mockListener: CoveyTownListener;
+    let player: Player;
+    let session: PlayerSession;
+    beforeEach(async () => {
+      const townName = `movePlayer test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      testingTown.bounds = { width: 1000, height: 1000 };
+      testingTown.maxPlayerSpeed = 100;
+      mockListener = mock<CoveyTownListener>();
+      player = new Player(nanoid());
+      session = await testingTown.addPlayer(player);
+      testingTown.addTownListener(mockListener);
+    });
+
+    it('checks the first movement against the maximum speed from where the player joined', () => {
+      const joinTime = session.lastMovementTime;
+      expect(testingTown.movePlayer(session, createUserLocation(900, 900), joinTime + 1000)).toBe(false);
+      const location = createUserLocation(100, 0);
+      expect(testingTown.movePlayer(session, location, joinTime + 1000)).toBe(true);
+      expect(player.location).toBe(location);
+      expect(mockListener.onPlayerMoved).toHaveBeenCalledWith(player);
+    });
+
+    it('rejects locations outside of the town bounds', () => {
+      expect(testingTown.movePlayer(session, createUserLocation(-1, 10))).toBe(false);
+      expect(testingTown.movePlayer(session, createUserLocation(10, 1001))).toBe(false);
+      expect(mockListener.onPlayerMoved).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed locations', () => {
+      expect(testingTown.movePlayer(session, createUserLocation(NaN, 10))).toBe(false);
+      expect(testingTown.movePlayer(session, createUserLocation(10, Infinity))).toBe(false);
+      expect(testingTown.movePlayer(session,
+        { ...createUserLocation(10, 10), rotation: 'up' } as unknown as UserLocation)).toBe(false);
+      expect(testingTown.movePlayer(session,
+        { ...createUserLocation(10, 10), moving: 'yes' } as unknown as UserLocation)).toBe(false);
+      expect(player.location).toEqual(createUserLocation(0, 0));
+      expect(mockListener.onPlayerMoved).not.toHaveBeenCalled();
+    });
+
+    it('rejects movements that are faster than the maximum speed', () => {
+      const joinTime = session.lastMovementTime;
+      testingTown.movePlayer(session, createUserLocation(100, 100), joinTime + 2000);
+      expect(testingTown.movePlayer(session, createUserLocation(300, 100), joinTime + 3000)).toBe(false);
+      expect(player.location.x).toEqual(100);
+      expect(mockListener.onPlayerMoved).toHaveBeenCalledTimes(1);
+    });
+
+    it('accepts movements that are within the maximum speed', () => {
+      const joinTime = session.lastMovementTime;
+      expect(testingTown.movePlayer(session, createUserLocation(100, 100), joinTime + 2000)).toBe(true);
+      expect(testingTown.movePlayer(session, createUserLocation(200, 100), joinTime + 3000)).toBe(true);
+      expect(testingTown.movePlayer(session, createUserLocation(200, 210), joinTime + 4000)).toBe(true);
+      expect(player.location).toEqual(createUserLocation(200, 210));
+    });
+  });
+
+  describe('with a map', () => {
+    let testingTown: CoveyTownController;
+    beforeEach(() => {
+      const townName = `map test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      if (!map) {
+        fail('Invalid map');
+      }
+      expect(testingTown.setMap(map)).toBe(true);
+    });
+
+    it('uses the size of the map as the town bounds', () => {
+      expect(testingTown.bounds).toEqual({ width: 320, height: 320 });
+    });
+
+    it('places new players at a spawn point', async () => {
+      const player = new Player(nanoid());
+      await testingTown.addPlayer(player);
+      expect(player.location.x).toEqual(64);
+      expect(player.location.y).toEqual(64);
+    });
+
+    it('rejects player locations inside of walls', async () => {
+      const mockListener = mock<CoveyTownListener>();
+      const player = new Player(nanoid());
+      await testingTown.addPlayer(player);
+      testingTown.addTownListener(mockListener);
+
+      expect(testingTown.updatePlayerLocation(player, createUserLocation(10, 100))).toBe(false);
+      expect(player.location.x).toEqual(64);
+      expect(mockListener.onPlayerMoved).not.toHaveBeenCalled();
+      expect(testingTown.updatePlayerLocation(player, createUserLocation(100, 100))).toBe(true);
+    });
+
+    it('rejects conversation areas that overlap walls', () => {
+      expect(testingTown.addConversationArea(createConversationForTesting({
+        boundingBox: { x: 40, y: 100, height: 20, width: 20 },
+      }))).toBe(false);
+      expect(testingTown.addConversationArea(createConversationForTesting({
+        boundingBox: { x: 100, y: 100, height: 20, width: 20 },
+      }))).toBe(true);
+    });
+
+    it('does not change to a map whose walls overlap existing conversation areas', () => {
+      const otherTown = new CoveyTownController(nanoid(), false);
+      otherTown.addConversationArea(createConversationForTesting({
+        boundingBox: { x: 40, y: 100, height: 20, width: 20 },
+      }));
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      if (!map) {
+        fail('Invalid map');
+      }
+      expect(otherTown.setMap(map)).toBe(false);
+      expect(otherTown.map).toBeUndefined();
+    });
+  });
+
+  describe('sendChatMessage', () => {
+    let testingTown: CoveyTownController;
+    let mockListener: CoveyTownListener;
+    let player: Player;
+    let session: PlayerSession;
+    beforeEach(async () => {
+      const townName = `sendChatMessage test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      mockListener = mock<CoveyTownListener>();
+      player = new Player(nanoid());
+      session = await testingTown.addPlayer(player);
+      testingTown.addTownListener(mockListener);
+    });
+
+    it('sends the message to listeners and adds it to the chat history', () => {
+      expect(testingTown.sendChatMessage(session, 'hello', undefined, 1000)).toBe(true);
+      const expectedMessage = {
+        id: expect.any(String),
+        authorID: player.id,
+        authorName: player.userName,
+        body: 'hello',
+        timestamp: 1000,
+        conversationLabel: undefined,
+      };
+      expect(mockListener.onChatMessage).toHaveBeenCalledWith(expectedMessage);
+      expect(testingTown.chatHistory).toEqual([expectedMessage]);
+    });
+
+    it('rejects empty and overly long messages', () => {
+      expect(testingTown.sendChatMessage(session, '   ')).toBe(false);
+      expect(testingTown.sendChatMessage(session, 'a'.repeat(501))).toBe(false);
+      expect(mockListener.onChatMessage).not.toHaveBeenCalled();
+      expect(testingTown.chatHistory).toEqual([]);
+    });
+
+    it('rejects messages from players who are sending messages too quickly', () => {
+      for (let i = 0; i < 5; i += 1) {
+        expect(testingTown.sendChatMessage(session, `message ${i}`, undefined, 1000 + i)).toBe(true);
+      }
+      expect(testingTown.sendChatMessage(session, 'too fast', undefined, 2000)).toBe(false);
+      expect(testingTown.sendChatMessage(session, 'slow enough', undefined, 11000)).toBe(true);
+    });
+
+    it('only remembers the most recent messages', () => {
+      for (let i = 0; i < 110; i += 1) {
+        testingTown.sendChatMessage(session, `message ${i}`, undefined, i * 10000);
+      }
+      expect(testingTown.chatHistory.length).toEqual(100);
+      expect(testingTown.chatHistory[0].body).toEqual('message 10');
+      expect(testingTown.chatHistory[99].body).toEqual('message 109');
+    });
+  });
+
+  describe('conversation area chat', () => {
+    let testingTown: CoveyTownController;
+    let conversation: ServerConversationArea;
+    let speaker: PlayerSession;
+    let occupant: PlayerSession;
+    let outsider: PlayerSession;
+    const speakerListener = mock<CoveyTownListener>();
+    const occupantListener = mock<CoveyTownListener>();
+    const outsiderListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      const townName = `conversation area chat test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      [speakerListener, occupantListener, outsiderListener].forEach(mockReset);
+      conversation = createConversationForTesting({
+        boundingBox: { x: 10, y: 10, height: 5, width: 5 },
+      });
+      testingTown.addConversationArea(conversation);
+      speaker = await testingTown.addPlayer(new Player(nanoid()));
+      occupant = await testingTown.addPlayer(new Player(nanoid()));
+      outsider = await testingTown.addPlayer(new Player(nanoid()));
+      testingTown.addTownListener(speakerListener, speaker.player.id);
+      testingTown.addTownListener(occupantListener, occupant.player.id);
+      testingTown.addTownListener(outsiderListener, outsider.player.id);
+      testingTown.updatePlayerLocation(speaker.player, locInConversation(conversation));
+      testingTown.updatePlayerLocation(occupant.player, anotherLocInConversation(conversation));
+    });
+
+    it('only delivers messages to players in the conversation area', () => {
+      expect(testingTown.sendChatMessage(speaker, 'hello', conversation.label)).toBe(true);
+      const expectedMessage = expect.objectContaining({ body: 'hello', conversationLabel: conversation.label });
+      expect(speakerListener.onChatMessage).toHaveBeenCalledWith(expectedMessage);
+      expect(occupantListener.onChatMessage).toHaveBeenCalledWith(expectedMessage);
+      expect(outsiderListener.onChatMessage).not.toHaveBeenCalled();
+      expect(testingTown.chatHistory).toEqual([]);
+    });
+
+    it('rejects messages from players who are not in the conversation area', () => {
+      expect(testingTown.sendChatMessage(outsider, 'hello', conversation.label)).toBe(false);
+      expect(speakerListener.onChatMessage).not.toHaveBeenCalled();
+    });
+
+    it('sends the recent messages to players who enter the conversation area', () => {
+      testingTown.sendChatMessage(speaker, 'first', conversation.label);
+      testingTown.sendChatMessage(occupant, 'second', conversation.label);
+      testingTown.updatePlayerLocation(outsider.player, locInConversation(conversation));
+      expect(outsiderListener.onChatHistory).toHaveBeenCalledWith([
+        expect.objectContaining({ body: 'first' }),
+        expect.objectContaining({ body: 'second' }),
+      ]);
+      expect(speakerListener.onChatHistory).not.toHaveBeenCalled();
+    });
+
+    it('discards the chat history when the conversation area is destroyed', () => {
+      testingTown.sendChatMessage(speaker, 'hello', conversation.label);
+      testingTown.destroyConversationArea(conversation.label);
+      testingTown.addConversationArea(conversation);
+      testingTown.updatePlayerLocation(outsider.player, locInConversation(conversation));
+      expect(outsiderListener.onChatHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendDirectMessage', () => {
+    let testingTown: CoveyTownController;
+    let sender: PlayerSession;
+    let recipient: PlayerSession;
+    const senderListener = mock<CoveyTownListener>();
+    const recipientListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      const townName = `sendDirectMessage test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      [senderListener, recipientListener].forEach(mockReset);
+      sender = await testingTown.addPlayer(new Player(nanoid()));
+      recipient = await testingTown.addPlayer(new Player(nanoid()));
+      testingTown.addTownListener(senderListener, sender.player.id);
+      testingTown.addTownListener(recipientListener, recipient.player.id);
+    });
+
+    it('only delivers the message to the recipient', () => {
+      const message = testingTown.sendDirectMessage(sender, recipient.player.id, 'psst');
+      expect(message).toEqual(expect.objectContaining({
+        authorID: sender.player.id,
+        recipientID: recipient.player.id,
+        body: 'psst',
+      }));
+      expect(recipientListener.onDirectMessage).toHaveBeenCalledWith(message);
+      expect(senderListener.onDirectMessage).not.toHaveBeenCalled();
+      expect(testingTown.chatHistory).toEqual([]);
+    });
+
+    it('rejects messages to players who are not connected', () => {
+      testingTown.removeTownListener(recipientListener);
+      expect(testingTown.isPlayerConnected(recipient.player.id)).toBe(false);
+      expect(testingTown.sendDirectMessage(sender, recipient.player.id, 'psst')).toBeUndefined();
+      expect(testingTown.sendDirectMessage(sender, nanoid(), 'psst')).toBeUndefined();
+      expect(recipientListener.onDirectMessage).not.toHaveBeenCalled();
+    });
+
+    it('rejects empty messages and messages to yourself', () => {
+      expect(testingTown.sendDirectMessage(sender, recipient.player.id, '')).toBeUndefined();
+      expect(testingTown.sendDirectMessage(sender, sender.player.id, 'hello me')).toBeUndefined();
+      expect(senderListener.onDirectMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('waitlist', () => {
+    let testingTown: CoveyTownController;
+    let sessions: PlayerSession[];
+    const firstWaiter = mock<WaitlistListener>();
+    const secondWaiter = mock<WaitlistListener>();
+    beforeEach(async () => {
+      const townName = `waitlist test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      [firstWaiter, secondWaiter].forEach(mockReset);
+      sessions = await Promise.all(Array.from({ length: testingTown.capacity },
+        () => testingTown.addPlayer(new Player(nanoid()))));
+    });
+
+    it('admits requests right away if the town is not full', async () => {
+      testingTown.destroySession(sessions[0]);
+      const entry = testingTown.joinWaitlist(nanoid());
+      expect(entry.isAdmitted).toBe(true);
+      expect(testingTown.getWaitlistPosition(entry)).toBe(0);
+      expect(testingTown.isFull).toBe(true);
+    });
+
+    it('queues requests in order while the town is full', () => {
+      expect(testingTown.isFull).toBe(true);
+      const first = testingTown.joinWaitlist(nanoid());
+      const second = testingTown.joinWaitlist(nanoid());
+      expect(testingTown.getWaitlistPosition(first)).toBe(1);
+      expect(testingTown.getWaitlistPosition(second)).toBe(2);
+      expect(testingTown.getWaitlistEntry(second.ticket)).toBe(second);
+      expect(testingTown.players.length).toBe(testingTown.capacity);
+    });
+
+    it('admits the first request when a player leaves, and notifies the rest of their new position', async () => {
+      const first = testingTown.joinWaitlist('first');
+      const second = testingTown.joinWaitlist('second');
+      first.listener = firstWaiter;
+      second.listener = secondWaiter;
+
+      testingTown.destroySession(sessions[0]);
+      expect(first.isAdmitted).toBe(true);
+      expect(testingTown.getWaitlistPosition(second)).toBe(1);
+      expect(secondWaiter.onWaitlistPositionChanged).toHaveBeenCalledWith(1);
+      expect(testingTown.players.map(player => player.userName)).toContain('first');
+
+      // the session is ready once the video token has been issued
+      await new Promise(resolve => setImmediate(resolve));
+      expect(first.session?.player.userName).toBe('first');
+      expect(firstWaiter.onWaitlistAdmitted).toHaveBeenCalledWith(first.session);
+      expect(secondWaiter.onWaitlistAdmitted).not.toHaveBeenCalled();
+    });
+
+    it('destroys admitted sessions that no client connects to within the admission timeout', async () => {
+      jest.useFakeTimers();
+      try {
+        const entry = testingTown.joinWaitlist(nanoid());
+        testingTown.destroySession(sessions[0]);
+        await Promise.resolve();
+        await Promise.resolve();
+        expect(entry.session?.gracePeriodTimer).toBeDefined();
+        jest.advanceTimersByTime(testingTown.waitlistAdmissionTimeout - 1);
+        expect(testingTown.getWaitlistEntry(entry.ticket)).toBe(entry);
+        jest.advanceTimersByTime(1);
+        expect(testingTown.getWaitlistEntry(entry.ticket)).toBeUndefined();
+        expect(testingTown.players.map(player => player.userName)).not.toContain(entry.userName);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('keeps admitted sessions for the admission timeout even without a session grace period', async () => {
+      testingTown.sessionGracePeriod = 0;
+      jest.useFakeTimers();
+      try {
+        const first = testingTown.joinWaitlist(nanoid());
+        const second = testingTown.joinWaitlist(nanoid());
+        testingTown.destroySession(sessions[0]);
+        await Promise.resolve();
+        await Promise.resolve();
+        jest.advanceTimersByTime(200);
+        expect(testingTown.getWaitlistEntry(first.ticket)).toBe(first);
+        expect(testingTown.players.map(player => player.userName)).toContain(first.userName);
+        expect(testingTown.getWaitlistPosition(second)).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('puts entries back on the waitlist if their player can not be added', async () => {
+      const entry = testingTown.joinWaitlist(nanoid());
+      entry.listener = firstWaiter;
+      jest.spyOn(console, 'trace').mockImplementationOnce(() => {});
+      mockTwilioVideo.getTokenForTown.mockRejectedValueOnce(new Error('No video token'));
+      testingTown.destroySession(sessions[0]);
+      expect(entry.isAdmitted).toBe(true);
+
+      await new Promise(resolve => setImmediate(resolve));
+      expect(entry.isAdmitted).toBe(false);
+      expect(testingTown.getWaitlistPosition(entry)).toBe(1);
+      expect(firstWaiter.onWaitlistPositionChanged).toHaveBeenCalledWith(1);
+      expect(testingTown.players.map(player => player.userName)).not.toContain(entry.userName);
+      expect(testingTown.isFull).toBe(false);
+    });
+
+    it('notifies the requests behind an entry that leaves the waitlist', () => {
+      const first = testingTown.joinWaitlist(nanoid());
+      const second = testingTown.joinWaitlist(nanoid());
+      second.listener = secondWaiter;
+      expect(testingTown.leaveWaitlist(first.ticket)).toBe(true);
+      expect(testingTown.getWaitlistEntry(first.ticket)).toBeUndefined();
+      expect(secondWaiter.onWaitlistPositionChanged).toHaveBeenCalledWith(1);
+      expect(testingTown.leaveWaitlist(first.ticket)).toBe(false);
+    });
+  });
+
+  describe('settings', () => {
+    let testingTown: CoveyTownController;
+    beforeEach(() => {
+      const townName = `settings test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+    });
+
+    it('starts with the default settings', () => {
+      expect(testingTown.settings).toEqual({ capacity: 50, conversationAreaCreation: 'anyone' });
+      expect(testingTown.capacity).toBe(50);
+    });
+
+    it('rejects invalid settings without changing any of them', () => {
+      expect(testingTown.updateSettings({ capacity: 10, conversationAreaCreation: 'nobody' as 'owner' })).toBe(false);
+      expect(testingTown.updateSettings({ capacity: 1.5 })).toBe(false);
+      expect(testingTown.updateSettings({ maxConversationAreaSize: { width: 0, height: 10 } })).toBe(false);
+      expect(testingTown.updateSettings({ spawnPoint: { x: testingTown.bounds.width + 1, y: 0 } })).toBe(false);
+      expect(testingTown.capacity).toBe(50);
+    });
+
+    it('removes the maximum conversation area size and the spawn point when they are set to null', () => {
+      expect(testingTown.updateSettings({
+        maxConversationAreaSize: { width: 10, height: 10 }, spawnPoint: { x: 123, y: 45 },
+      })).toBe(true);
+      expect(testingTown.updateSettings({ capacity: 10 })).toBe(true);
+      expect(testingTown.settings.spawnPoint).toEqual({ x: 123, y: 45 });
+
+      expect(testingTown.updateSettings({ maxConversationAreaSize: null, spawnPoint: null })).toBe(true);
+      expect(testingTown.settings).toEqual({ capacity: 10, conversationAreaCreation: 'anyone' });
+      expect(testingTown.addConversationArea(createConversationForTesting())).toBe(true);
+    });
+
+    it('checks the settings of a new town against its map before it is created', () => {
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      expect(CoveyTownController.isValidNewTownSettings({ spawnPoint: { x: 160, y: 160 } }, map)).toBe(true);
+      expect(CoveyTownController.isValidNewTownSettings({ spawnPoint: { x: 0, y: 0 } }, map)).toBe(false);
+      expect(CoveyTownController.isValidNewTownSettings({ spawnPoint: { x: 400, y: 400 } }, map)).toBe(false);
+      expect(CoveyTownController.isValidNewTownSettings({ spawnPoint: { x: 400, y: 400 } })).toBe(true);
+      expect(CoveyTownController.isValidNewTownSettings({ capacity: 0 })).toBe(false);
+    });
+
+    it('rejects a spawn point inside of a wall', () => {
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      expect(map && testingTown.setMap(map)).toBe(true);
+      expect(testingTown.updateSettings({ spawnPoint: { x: 0, y: 0 } })).toBe(false);
+      expect(testingTown.updateSettings({ spawnPoint: { x: 160, y: 160 } })).toBe(true);
+    });
+
+    it('places new players at the spawn point', async () => {
+      expect(testingTown.updateSettings({ spawnPoint: { x: 123, y: 45 } })).toBe(true);
+      const session = await testingTown.addPlayer(new Player(nanoid()));
+      expect(session.player.location).toEqual(expect.objectContaining({ x: 123, y: 45 }));
+    });
+
+    it('rejects conversation areas that are larger than the maximum size', () => {
+      expect(testingTown.updateSettings({ maxConversationAreaSize: { width: 10, height: 10 } })).toBe(true);
+      const conversationArea = createConversationForTesting({ boundingBox: { x: 50, y: 50, width: 20, height: 5 } });
+      expect(testingTown.addConversationArea(conversationArea)).toBe(false);
+      conversationArea.boundingBox = { x: 50, y: 50, width: 10, height: 5 };
+      expect(testingTown.addConversationArea(conversationArea)).toBe(true);
+      expect(testingTown.updateConversationArea(conversationArea.label, undefined,
+        { x: 50, y: 50, width: 10, height: 11 })).toBe(false);
+    });
+
+    it('admits players from the waitlist when the capacity is increased', async () => {
+      testingTown.updateSettings({ capacity: 1 });
+      await testingTown.addPlayer(new Player(nanoid()));
+      const entry = testingTown.joinWaitlist(nanoid());
+      expect(entry.isAdmitted).toBe(false);
+      expect(testingTown.updateSettings({ capacity: 2 })).toBe(true);
+      expect(entry.isAdmitted).toBe(true);
+    });
+  });
+
+  describe('kickPlayer and banPlayer', () => {
+    let testingTown: CoveyTownController;
+    let victim: PlayerSession;
+    let bystander: PlayerSession;
+    const victimListener = mock<CoveyTownListener>();
+    const bystanderListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      const townName = `kickPlayer test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      [victimListener, bystanderListener].forEach(mockReset);
+      victim = await testingTown.addPlayer(new Player('Troll'), '10.0.0.1');
+      bystander = await testingTown.addPlayer(new Player(nanoid()), '10.0.0.2');
+      testingTown.addTownListener(victimListener, victim.player.id);
+      testingTown.addTownListener(bystanderListener, bystander.player.id);
+    });
+
+    it('notifies only the kicked player why they are being removed, and destroys their session', () => {
+      expect(testingTown.kickPlayer(victim.player.id)).toBe(true);
+      expect(victimListener.onPlayerKicked).toHaveBeenCalledWith('kicked');
+      expect(bystanderListener.onPlayerKicked).not.toHaveBeenCalled();
+      expect(bystanderListener.onPlayerDisconnected).toHaveBeenCalledTimes(1);
+      expect(testingTown.getSessionByToken(victim.sessionToken)).toBeUndefined();
+      expect(testingTown.isBanned('Troll', '10.0.0.1')).toBe(false);
+      expect(testingTown.kickPlayer(victim.player.id)).toBe(false);
+    });
+
+    it('bans the username and IP address of a banned player', () => {
+      expect(testingTown.banPlayer(victim.player.id)).toBe(true);
+      expect(victimListener.onPlayerKicked).toHaveBeenCalledWith('banned');
+      expect(testingTown.isBanned('troll')).toBe(true);
+      expect(testingTown.isBanned(nanoid(), '10.0.0.1')).toBe(true);
+      expect(testingTown.isBanned(nanoid(), '10.0.0.2')).toBe(false);
+    });
+
+    it('remembers bans when the town is restored from its record', () => {
+      testingTown.banPlayer(victim.player.id);
+      const restoredTown = CoveyTownController.fromRecord(testingTown.toRecord());
+      expect(restoredTown.isBanned('Troll')).toBe(true);
+      expect(restoredTown.isBanned(nanoid(), '10.0.0.1')).toBe(true);
+    });
+  });
+
+  describe('disconnectSession', () => {
+    let testingTown: CoveyTownController;
+    let session: PlayerSession;
+    const playerListener = mock<CoveyTownListener>();
+    const otherListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      const townName = `disconnectSession test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      testingTown.sessionGracePeriod = 1000;
+      [playerListener, otherListener].forEach(mockReset);
+      session = await testingTown.addPlayer(new Player(nanoid()));
+      testingTown.addTownListener(otherListener);
+      jest.useFakeTimers();
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('keeps the session and the player in their conversation area until the grace period expires', () => {
+      const conversationArea = createConversationForTesting();
+      testingTown.addConversationArea(conversationArea);
+      testingTown.updatePlayerLocation(session.player, locInConversation(conversationArea));
+
+      testingTown.disconnectSession(session);
+      jest.advanceTimersByTime(999);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBe(session);
+      expect(conversationArea.occupantsByID).toEqual([session.player.id]);
+      expect(otherListener.onPlayerDisconnected).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBeUndefined();
+      expect(otherListener.onPlayerDisconnected).toHaveBeenCalledWith(session.player);
+    });
+
+    it('reads the grace period from the environment, ignoring values that are not a number of 0 or more', () => {
+      const withGracePeriod = (value: string) => {
+        process.env.SESSION_GRACE_PERIOD_MS = value;
+        try {
+          return new CoveyTownController(nanoid(), false).sessionGracePeriod;
+        } finally {
+          delete process.env.SESSION_GRACE_PERIOD_MS;
+        }
+      };
+      expect(withGracePeriod('0')).toBe(0);
+      expect(withGracePeriod('2500')).toBe(2500);
+      expect(withGracePeriod('15s')).toBe(15000);
+      expect(withGracePeriod('-1')).toBe(15000);
+      expect(withGracePeriod('')).toBe(15000);
+    });
+
+    it('does not destroy a session that is resumed during the grace period', () => {
+      testingTown.disconnectSession(session);
+      expect(testingTown.resumeSession(session)).toBe(true);
+      jest.advanceTimersByTime(1000);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBe(session);
+      expect(testingTown.resumeSession(session)).toBe(false);
+    });
+
+    it('does nothing if the player is still connected through another client', () => {
+      testingTown.addTownListener(playerListener, session.player.id);
+      testingTown.disconnectSession(session);
+      expect(session.gracePeriodTimer).toBeUndefined();
+    });
+
+    it('destroys the session right away if there is no grace period', () => {
+      testingTown.sessionGracePeriod = 0;
+      testingTown.disconnectSession(session);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBeUndefined();
+    });
+  });
+
+  describe('checkIdleSessions', () => {
+    let testingTown: CoveyTownController;
+    let session: PlayerSession;
+    const townListener = mock<CoveyTownListener>();
+    const playerListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      const townName = `checkIdleSessions test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      testingTown.awayTime = 1000;
+      testingTown.idleDisconnectTime = 5000;
+      [townListener, playerListener].forEach(mockReset);
+      session = await testingTown.addPlayer(new Player(nanoid()));
+      testingTown.addTownListener(townListener);
+      testingTown.addTownListener(playerListener, session.player.id);
+    });
+
+    it('does nothing to players who have been active recently', () => {
+      testingTown.checkIdleSessions(session.lastActivityTime + 999);
+      expect(session.player.isAway).toBe(false);
+      expect(townListener.onPlayerAwayStatusChanged).not.toHaveBeenCalled();
+    });
+
+    it('marks idle players as away, and removes them from their conversation area', () => {
+      const conversationArea = createConversationForTesting();
+      testingTown.addConversationArea(conversationArea);
+      testingTown.updatePlayerLocation(session.player, locInConversation(conversationArea));
+
+      testingTown.checkIdleSessions(session.lastActivityTime + 1000);
+      expect(session.player.isAway).toBe(true);
+      expect(townListener.onPlayerAwayStatusChanged).toHaveBeenCalledWith(session.player);
+      expect(session.player.activeConversationArea).toBeUndefined();
+      expect(testingTown.conversationAreas).toEqual([]);
+
+      testingTown.checkIdleSessions(session.lastActivityTime + 2000);
+      expect(townListener.onPlayerAwayStatusChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('marks away players as active again once they do something', () => {
+      const start = session.lastActivityTime;
+      testingTown.checkIdleSessions(start + 1000);
+      expect(testingTown.movePlayer(session, createUserLocation(10, 10), start + 1500)).toBe(true);
+      expect(session.player.isAway).toBe(false);
+      expect(townListener.onPlayerAwayStatusChanged).toHaveBeenCalledTimes(2);
+      testingTown.checkIdleSessions(start + 2000);
+      expect(session.player.isAway).toBe(false);
+    });
+
+    it('removes players who have been idle for too long', () => {
+      testingTown.recordActivity(session, session.lastActivityTime + 100);
+      testingTown.checkIdleSessions(session.lastActivityTime + 5000);
+      expect(playerListener.onPlayerKicked).toHaveBeenCalledWith('idle');
+      expect(townListener.onPlayerDisconnected).toHaveBeenCalledWith(session.player);
+      expect(testingTown.getSessionByToken(session.sessionToken)).toBeUndefined();
+    });
+  });
+
+  describe('updatePlayerProfile', () => {
+    let testingTown: CoveyTownController;
+    let session: PlayerSession;
+    const townListener = mock<CoveyTownListener>();
+    beforeEach(async () => {
+      const townName = `updatePlayerProfile test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      mockReset(townListener);
+      session = await testingTown.addPlayer(new Player(nanoid()));
+      testingTown.addTownListener(townListener);
+    });
+
+    it('changes only the included parts of the profile, and notifies listeners', () => {
+      expect(testingTown.updatePlayerProfile(session, { status: 'busy', statusMessage: 'In a meeting' })).toBe(true);
+      expect(testingTown.updatePlayerProfile(session, { avatar: 'ghost_2' })).toBe(true);
+      expect(session.player.status).toBe('busy');
+      expect(session.player.statusMessage).toBe('In a meeting');
+      expect(session.player.avatar).toBe('ghost_2');
+      expect(townListener.onPlayerProfileUpdated).toHaveBeenCalledTimes(2);
+      expect(townListener.onPlayerProfileUpdated).toHaveBeenCalledWith(session.player);
+    });
+
+    it('rejects invalid profiles without changing any part of them', () => {
+      expect(testingTown.updatePlayerProfile(session, { status: 'asleep' as 'busy', statusMessage: 'zzz' })).toBe(false);
+      expect(testingTown.updatePlayerProfile(session, { statusMessage: 'x'.repeat(101) })).toBe(false);
+      expect(testingTown.updatePlayerProfile(session, { avatar: '../../etc/passwd' })).toBe(false);
+      expect(session.player.status).toBe('available');
+      expect(session.player.statusMessage).toBe('');
+      expect(townListener.onPlayerProfileUpdated).not.toHaveBeenCalled();
+    });
+
+    it('includes the profile in the player that is sent to clients', () => {
+      testingTown.updatePlayerProfile(session, { status: 'do-not-disturb' });
+      expect(JSON.parse(JSON.stringify(testingTown.players[0]))).toEqual(expect.objectContaining({
+        _status: 'do-not-disturb',
+        _statusMessage: '',
+        _avatar: 'default',
+      }));
+    });
+  });
+
+  describe('invites', () => {
+    let testingTown: CoveyTownController;
+    beforeEach(() => {
+      const townName = `invites test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+    });
+
+    it('creates invites that may be fetched by their token', () => {
+      const invite = testingTown.createInvite(undefined, undefined, 'moderator');
+      expect(invite).toEqual(expect.objectContaining({ uses: 0, role: 'moderator' }));
+      expect(invite && testingTown.getInvite(invite.inviteToken)).toBe(invite);
+      expect(testingTown.getInvites()).toEqual([invite]);
+    });
+
+    it('rejects invalid invite options', () => {
+      const now = Date.now();
+      expect(testingTown.createInvite(now - 1, undefined, 'member', now)).toBeUndefined();
+      expect(testingTown.createInvite(undefined, 0)).toBeUndefined();
+      expect(testingTown.createInvite(undefined, 1.5)).toBeUndefined();
+      expect(testingTown.createInvite(undefined, undefined, 'owner' as 'member')).toBeUndefined();
+      expect(testingTown.getInvites()).toEqual([]);
+    });
+
+    it('does not return invites that have expired', () => {
+      const now = Date.now();
+      const invite = testingTown.createInvite(now + 1000, undefined, 'member', now);
+      expect(invite && testingTown.getInvite(invite.inviteToken, now + 999)).toBe(invite);
+      expect(invite && testingTown.getInvite(invite.inviteToken, now + 1000)).toBeUndefined();
+    });
+
+    it('forgets invites once they have been used up', () => {
+      const invite = testingTown.createInvite(undefined, 2);
+      if (!invite) {
+        fail('Invite was not created');
+      }
+      testingTown.redeemInvite(invite);
+      expect(testingTown.getInvite(invite.inviteToken)?.uses).toBe(1);
+      testingTown.redeemInvite(invite);
+      expect(testingTown.getInvite(invite.inviteToken)).toBeUndefined();
+      expect(testingTown.toRecord().invites).toEqual([]);
+    });
+
+    it('gives back the use of an invite that is released', () => {
+      const invite = testingTown.createInvite(undefined, 1);
+      if (!invite) {
+        fail('Invite was not created');
+      }
+      testingTown.redeemInvite(invite);
+      expect(testingTown.getInvite(invite.inviteToken)).toBeUndefined();
+      testingTown.releaseInvite(invite);
+      expect(testingTown.getInvite(invite.inviteToken)?.uses).toBe(0);
+    });
+
+    it('does not give back an invite that is revoked before it is released', () => {
+      const invite = testingTown.createInvite(undefined, 2);
+      if (!invite) {
+        fail('Invite was not created');
+      }
+      testingTown.redeemInvite(invite);
+      expect(testingTown.revokeInvite(invite.inviteToken)).toBe(true);
+      testingTown.releaseInvite(invite);
+      expect(testingTown.getInvite(invite.inviteToken)).toBeUndefined();
+      expect(testingTown.getInvites()).toEqual([]);
+    });
+
+    it('revokes invites', () => {
+      const invite = testingTown.createInvite();
+      expect(invite && testingTown.revokeInvite(invite.inviteToken)).toBe(true);
+      expect(invite && testingTown.revokeInvite(invite.inviteToken)).toBe(false);
+      expect(testingTown.getInvites()).toEqual([]);
+    });
+  });
+
+  describe('toSnapshot and fromSnapshot', () => {
+    let testingTown: CoveyTownController;
+    beforeEach(async () => {
+      const townName = `snapshot test town ${nanoid()}`;
+      testingTown = new CoveyTownController(townName, false);
+      testingTown.updateSettings({ capacity: 10, conversationAreaCreation: 'owner' });
+      testingTown.addConversationArea(createConversationForTesting({
+        boundingBox: { x: 10, y: 10, width: 5, height: 5 },
+      }));
+      testingTown.addConversationArea({
+        ...createConversationForTesting({ boundingBox: { x: 30, y: 30, width: 5, height: 5 } }),
+        isPinned: true,
+      });
+    });
+
+    it('creates a new town with the same configuration, but none of its secrets or occupants', async () => {
+      const session = await testingTown.addPlayer(new Player(nanoid()));
+      testingTown.updatePlayerLocation(session.player, locInConversation(testingTown.conversationAreas[0]));
+
+      const snapshot = JSON.parse(JSON.stringify(testingTown.toSnapshot()));
+      expect(snapshot).not.toHaveProperty('townUpdatePassword');
+      const importedTown = CoveyTownController.fromSnapshot(snapshot, true);
+      expect(importedTown?.coveyTownID).not.toEqual(testingTown.coveyTownID);
+      expect(importedTown?.friendlyName).toEqual(testingTown.friendlyName);
+      expect(importedTown?.isPubliclyListed).toBe(true);
+      expect(importedTown?.settings).toEqual(testingTown.settings);
+      expect(importedTown?.conversationAreas).toEqual(testingTown.conversationAreas
+        .map(area => ({ ...area, isPinned: area.isPinned === true, occupantsByID: [] })));
+    });
+
+    it('rejects snapshots with overlapping or malformed conversation areas', () => {
+      const snapshot = testingTown.toSnapshot();
+      const overlapping = { ...snapshot.conversationAreas[0], label: nanoid() };
+      expect(CoveyTownController.fromSnapshot({
+        ...snapshot, conversationAreas: [...snapshot.conversationAreas, overlapping],
+      }, false)).toBeUndefined();
+      const malformed = { ...overlapping, boundingBox: { x: 100, y: 100, width: -5, height: 5 } };
+      expect(CoveyTownController.fromSnapshot({
+        ...snapshot, conversationAreas: [malformed],
+      }, false)).toBeUndefined();
+    });
+
+    it('rejects snapshots with invalid settings', () => {
+      const snapshot = testingTown.toSnapshot();
+      expect(CoveyTownController.fromSnapshot({
+        ...snapshot, settings: { ...snapshot.settings, capacity: 0 },
+      }, false)).toBeUndefined();
+    });
+  });
 });
@@ -1,21 +1,103 @@
 import { customAlphabet, nanoid } from 'nanoid';
 import { BoundingBox, ServerConversationArea } from '../client/TownsServiceClient';
-import { UserLocation } from '../CoveyTypes';
+import {
+  ChatMessage, Direction, PlayerProfile, PlayerRemovalReason, PlayerStatus, TownBounds, TownInvite,
+  TownRole, TownSettings, TownSettingsUpdate, UserLocation,
+} from '../CoveyTypes';
 import CoveyTownListener from '../types/CoveyTownListener';
+import { CoveyTownRecord } from './ICoveyTownsStorage';
 import Player from '../types/Player';
 import PlayerSession from '../types/PlayerSession';
+import WaitlistEntry from '../types/WaitlistEntry';
+import { TOWN_SNAPSHOT_VERSION, TownSnapshot } from '../types/TownSnapshot';
+import { RecordedTownEvent } from '../types/TownRecording';
+import { logError, parseNonNegativeNumber } from '../Utils';
 import IVideoClient from './IVideoClient';
 import TwilioVideo from './TwilioVideo';
+import TownMap from './TownMap';
+import Metrics from './Metrics';
 
 const friendlyNanoID = customAlphabet('1234567890ABCDEF', 8);
 
+const DIRECTIONS: Direction[] = ['front', 'back', 'left', 'right'];
+
+/** Default maximum speed that players may move at, in pixels per second */
+const DEFAULT_MAX_PLAYER_SPEED = 400;
+
+/** Default size of the region that players may move within, in pixels */
+const DEFAULT_TOWN_BOUNDS: TownBounds = { width: 3200, height: 3200 };
+
+/** The region that players may move within in a town without a map */
+function defaultTownBounds(): TownBounds {
+  return {
+    width: Number(process.env.TOWN_WIDTH) || DEFAULT_TOWN_BOUNDS.width,
+    height: Number(process.env.TOWN_HEIGHT) || DEFAULT_TOWN_BOUNDS.height,
+  };
+}
+
+/**
+ * Extra distance (in pixels) that a player may cover between two movement updates beyond what
+ * the maximum speed allows, so that updates that are delayed and then delivered in a burst by the
+ * network are not rejected
+ */
+const MOVEMENT_TOLERANCE = 32;
+
+/** Maximum length of a chat message, in characters */
+const MAX_CHAT_MESSAGE_LENGTH = 500;
+
+/** Number of chat messages that each town remembers, to send to players who join later */
+const CHAT_HISTORY_LENGTH = 100;
+
+/** Players may send at most CHAT_RATE_LIMIT chat messages in any CHAT_RATE_WINDOW_MS period */
+const CHAT_RATE_LIMIT = 5;
+
+const CHAT_RATE_WINDOW_MS = 10000;
+
+const PLAYER_STATUSES: PlayerStatus[] = ['available', 'busy', 'do-not-disturb'];
+
+/** Maximum length of a player's status message, in characters */
+const MAX_STATUS_MESSAGE_LENGTH = 100;
+
+const TOWN_ROLES: TownRole[] = ['member', 'moderator'];
+
+/** Avatar identifiers are short names made of letters, digits, dashes and underscores */
+const AVATAR_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Default time (in ms) that a player's session is kept alive after their client disconnects, so
+ * that they can reconnect without rejoining the town
+ */
+const DEFAULT_SESSION_GRACE_PERIOD_MS = 15000;
+
+/**
+ * Default time (in ms) that a session admitted from the waitlist is kept for, waiting for the
+ * client that was admitted to connect to it
+ */
+const DEFAULT_WAITLIST_ADMISSION_TIMEOUT_MS = 60000;
+
+/** Default time (in ms) that a player may be idle for before they are shown as away */
+const DEFAULT_AWAY_TIME_MS = 5 * 60 * 1000;
+
+/** Default time (in ms) that a player may be idle for before they are removed from the town */
+const DEFAULT_IDLE_DISCONNECT_TIME_MS = 30 * 60 * 1000;
+
+/** Settings of a town that are not chosen when it is created */
+const DEFAULT_TOWN_SETTINGS: TownSettings = {
+  capacity: 50,
+  conversationAreaCreation: 'anyone',
+};
+
 /**
  * The CoveyTownController implements the logic for each town: managing the various events that
  * can occur (e.g. joining a town, moving, leaving a town)
  */
 export default class CoveyTownController {
   get capacity(): number {
-    return this._capacity;
+    return this._settings.capacity;
+  }
+
+  get settings(): TownSettings {
+    return this._settings;
   }
 
   set isPubliclyListed(value: boolean) {
@@ -26,16 +108,40 @@ export default class CoveyTownController {
     return this._isPubliclyListed;
   }
 
+  get isReadOnly(): boolean {
+    return this._isReadOnly;
+  }
+
+  set isReadOnly(value: boolean) {
+    this._isReadOnly = value;
+  }
+
   get townUpdatePassword(): string {
     return this._townUpdatePassword;
   }
 
+  get joinPassword(): string | undefined {
+    return this._joinPassword;
+  }
+
+  set joinPassword(value: string | undefined) {
+    this._joinPassword = value;
+  }
+
+  get isFull(): boolean {
+    return this._players.length >= this._settings.capacity;
+  }
+
   get players(): Player[] {
     return this._players;
   }
 
+  /**
+   * The number of players in this town, as reported by /towns. This counts players rather than
+   * listeners, since the store subscribes its own listeners (such as the audit log's) to each town.
+   */
   get occupancy(): number {
-    return this._listeners.length;
+    return this._players.length;
   }
 
   get friendlyName(): string {
@@ -54,21 +160,98 @@ export default class CoveyTownController {
     return this._conversationAreas;
   }
 
+  get chatHistory(): ChatMessage[] {
+    return this._chatHistory;
+  }
+
+  get bounds(): TownBounds {
+    return this._bounds;
+  }
+
+  set bounds(value: TownBounds) {
+    this._bounds = value;
+  }
+
+  get map(): TownMap | undefined {
+    return this._map;
+  }
+
+  get maxPlayerSpeed(): number {
+    return this._maxPlayerSpeed;
+  }
+
+  set maxPlayerSpeed(value: number) {
+    this._maxPlayerSpeed = value;
+  }
+
+  get awayTime(): number {
+    return this._awayTime;
+  }
+
+  set awayTime(value: number) {
+    this._awayTime = value;
+  }
+
+  get idleDisconnectTime(): number {
+    return this._idleDisconnectTime;
+  }
+
+  set idleDisconnectTime(value: number) {
+    this._idleDisconnectTime = value;
+  }
+
+  get sessionGracePeriod(): number {
+    return this._sessionGracePeriod;
+  }
+
+  set sessionGracePeriod(value: number) {
+    this._sessionGracePeriod = value;
+  }
+
+  get waitlistAdmissionTimeout(): number {
+    return this._waitlistAdmissionTimeout;
+  }
+
+  set waitlistAdmissionTimeout(value: number) {
+    this._waitlistAdmissionTimeout = value;
+  }
+
   /** The list of players currently in the town * */
   private _players: Player[] = [];
 
   /** The list of valid sessions for this town * */
   private _sessions: PlayerSession[] = [];
 
+  /** Requests to join this town while it was full, in the order that they were made * */
+  private _waitlist: WaitlistEntry[] = [];
+
+  /** Invites to this town that have not been revoked, including any that have expired * */
+  private _invites: TownInvite[] = [];
+
+  /** Tokens of the invites to this town that have been revoked * */
+  private _revokedInviteTokens: string[] = [];
+
+  /** Usernames (in lower case) that may not join this town * */
+  private _bannedUserNames: string[] = [];
+
+  /** IP addresses that players may not join this town from * */
+  private _bannedAddresses: string[] = [];
+
   /** The videoClient that this CoveyTown will use to provision video resources * */
   private _videoClient: IVideoClient = TwilioVideo.getInstance();
 
   /** The list of CoveyTownListeners that are subscribed to events in this town * */
   private _listeners: CoveyTownListener[] = [];
 
+  /** The CoveyTownListeners that are subscribed on behalf of a specific player * */
+  private _playerListeners: { playerID: string; listener: CoveyTownListener }[] = [];
+
   /** The list of currently active ConversationAreas in this town */
   private _conversationAreas: ServerConversationArea[] = [];
 
+  /** Callbacks to call whenever a conversation area is created, changed or destroyed * */
+  private _conversationAreasChangeListeners: (() => void)[] = [];
+
   private readonly _coveyTownID: string;
 
   private _friendlyName: string;
@@ -77,33 +260,225 @@ export default class CoveyTownController {
 
   private _isPubliclyListed: boolean;
 
-  private _capacity: number;
+  /** Whether this town is a replay of a recording, which players may watch but not change * */
+  private _isReadOnly = false;
+
+  /** Password that players must provide to join this town, or undefined if anyone may join * */
+  private _joinPassword?: string;
+
+  private _settings: TownSettings = { ...DEFAULT_TOWN_SETTINGS };
+
+  /** The region that players may move within * */
+  private _bounds: TownBounds = defaultTownBounds();
+
+  /** The most recent chat messages sent in this town, oldest first * */
+  private _chatHistory: ChatMessage[] = [];
+
+  /** The most recent chat messages sent in each conversation area, by conversation label * */
+  private _conversationChatHistories: Record<string, ChatMessage[]> = {};
+
+  /** The map of the world this town takes place in, if one has been uploaded * */
+  private _map?: TownMap;
 
-  constructor(friendlyName: string, isPubliclyListed: boolean) {
-    this._coveyTownID = process.env.DEMO_TOWN_ID === friendlyName ? friendlyName : friendlyNanoID();
-    this._capacity = 50;
-    this._townUpdatePassword = nanoid(24);
+  /** The maximum speed that players may move at, in pixels per second * */
+  private _maxPlayerSpeed: number = Number(process.env.MAX_PLAYER_SPEED) || DEFAULT_MAX_PLAYER_SPEED;
+
+  /** Time (in ms) that a player may be idle for before they are shown as away * */
+  private _awayTime = Number(process.env.PLAYER_AWAY_TIME_MS) || DEFAULT_AWAY_TIME_MS;
+
+  /** Time (in ms) that a player may be idle for before they are removed from the town * */
+  private _idleDisconnectTime = Number(process.env.PLAYER_IDLE_DISCONNECT_TIME_MS) || DEFAULT_IDLE_DISCONNECT_TIME_MS;
+
+  /** Time (in ms) that a session is kept alive after the player's client disconnects * */
+  private _sessionGracePeriod = parseNonNegativeNumber(process.env.SESSION_GRACE_PERIOD_MS,
+    DEFAULT_SESSION_GRACE_PERIOD_MS);
+
+  /** Time (in ms) that a session admitted from the waitlist waits for its client to connect * */
+  private _waitlistAdmissionTimeout = Number(process.env.WAITLIST_ADMISSION_TIMEOUT_MS)
+    || DEFAULT_WAITLIST_ADMISSION_TIMEOUT_MS;
+
+  /**
+   * Creates a new town. The town ID and update password are randomly generated, unless they are
+   * provided (which is only the case when restoring a town that was previously saved).
+   *
+   * @param friendlyName
+   * @param isPubliclyListed
+   * @param coveyTownID ID to use for this town, instead of generating a new one
+   * @param townUpdatePassword update password to use for this town, instead of generating a new one
+   */
+  constructor(friendlyName: string, isPubliclyListed: boolean, coveyTownID?: string, townUpdatePassword?: string) {
+    if (coveyTownID !== undefined) {
+      this._coveyTownID = coveyTownID;
+    } else {
+      this._coveyTownID = process.env.DEMO_TOWN_ID === friendlyName ? friendlyName : friendlyNanoID();
+    }
+    this._townUpdatePassword = townUpdatePassword ?? nanoid(24);
     this._isPubliclyListed = isPubliclyListed;
     this._friendlyName = friendlyName;
   }
 
+  /**
+   * Re-creates a town from a record that was produced by `toRecord`. The restored conversation
+   * areas start out with no occupants, since no players are connected to a newly restored town.
+   *
+   * @param record the saved town
+   * @returns a new town controller with the same ID, password, settings and conversation areas
+   */
+  static fromRecord(record: CoveyTownRecord): CoveyTownController {
+    const town = new CoveyTownController(record.friendlyName, record.isPubliclyListed,
+      record.coveyTownID, record.townUpdatePassword);
+    town._conversationAreas = record.conversationAreas.map(area => ({ ...area, occupantsByID: [] }));
+    const map = record.map && TownMap.fromTiled(record.map);
+    if (map) {
+      town.setMap(map);
+    }
+    if (record.settings) {
+      town._settings = { ...DEFAULT_TOWN_SETTINGS, ...record.settings };
+    }
+    town._joinPassword = record.joinPassword;
+    town._invites = record.invites ?? [];
+    town._bannedUserNames = record.bannedUserNames ?? [];
+    town._bannedAddresses = record.bannedAddresses ?? [];
+    return town;
+  }
+
+  /**
+   * Produces the durable representation of this town, omitting anything that only lives for
+   * as long as players are connected (players, sessions and conversation area occupants)
+   */
+  toRecord(): CoveyTownRecord {
+    return {
+      coveyTownID: this._coveyTownID,
+      friendlyName: this._friendlyName,
+      isPubliclyListed: this._isPubliclyListed,
+      townUpdatePassword: this._townUpdatePassword,
+      conversationAreas: this._conversationAreas.map(area => ({
+        label: area.label,
+        topic: area.topic,
+        boundingBox: { ...area.boundingBox },
+        occupantsByID: [],
+        isPinned: area.isPinned,
+      })),
+      map: this._map?.definition,
+      settings: { ...this._settings },
+      joinPassword: this._joinPassword,
+      invites: this._invites.map(invite => ({ ...invite })),
+      bannedUserNames: [...this._bannedUserNames],
+      bannedAddresses: [...this._bannedAddresses],
+    };
+  }
+
+  /**
+   * Produces a portable copy of this town's configuration: its name, settings, conversation
+   * areas (without their occupants) and map
+   */
+  toSnapshot(): TownSnapshot {
+    return {
+      version: TOWN_SNAPSHOT_VERSION,
+      friendlyName: this._friendlyName,
+      settings: { ...this._settings },
+      conversationAreas: this._conversationAreas.map(area => ({
+        label: area.label,
+        topic: area.topic,
+        boundingBox: { ...area.boundingBox },
+        isPinned: area.isPinned,
+      })),
+      map: this._map?.definition,
+    };
+  }
+
+  /**
+   * Creates a new town (with a new ID and password) from a snapshot that was produced by
+   * `toSnapshot`, possibly on another server. Snapshots are checked as they are imported:
+   * * The friendly name must not be empty
+   * * The map, if any, must be a valid Tiled map
+   * * The settings must be valid
+   * * Every conversation area must have a unique label, a topic, and a well-formed bounding box
+   *   that does not overlap any other conversation area or a wall on the map
+   *
+   * The version of the snapshot is not checked, and must be checked by the caller.
+   *
+   * @param snapshot the snapshot to create the town from
+   * @param isPubliclyListed whether the new town should be publicly listed
+   * @returns the new town controller, or undefined if the snapshot is not valid
+   */
+  static fromSnapshot(snapshot: TownSnapshot, isPubliclyListed: boolean): CoveyTownController | undefined {
+    if (typeof snapshot.friendlyName !== 'string' || snapshot.friendlyName.length === 0
+      || !Array.isArray(snapshot.conversationAreas)) {
+      return undefined;
+    }
+    const town = new CoveyTownController(snapshot.friendlyName, isPubliclyListed);
+    if (snapshot.map !== undefined) {
+      const map = TownMap.fromTiled(snapshot.map);
+      if (!map) {
+        return undefined;
+      }
+      town.setMap(map);
+    }
+    if (snapshot.settings !== undefined && !town.updateSettings(snapshot.settings)) {
+      return undefined;
+    }
+    const areasAreValid = snapshot.conversationAreas.every(area => {
+      if (typeof area !== 'object' || area === null || typeof area.label !== 'string'
+        || area.label.length === 0 || typeof area.topic !== 'string') {
+        return false;
+      }
+      const { boundingBox } = area;
+      if (typeof boundingBox !== 'object' || boundingBox === null
+        || ![boundingBox.x, boundingBox.y, boundingBox.width, boundingBox.height].every(Number.isFinite)
+        || boundingBox.width <= 0 || boundingBox.height <= 0) {
+        return false;
+      }
+      // addConversationArea rejects areas with duplicate labels, and areas that overlap others
+      return town.addConversationArea({
+        label: area.label,
+        topic: area.topic,
+        boundingBox: {
+          x: boundingBox.x, y: boundingBox.y, width: boundingBox.width, height: boundingBox.height,
+        },
+        occupantsByID: [],
+        isPinned: area.isPinned === true,
+      });
+    });
+    return areasAreValid ? town : undefined;
+  }
+
   /**
    * Adds a player to this Covey Town, provisioning the necessary credentials for the
-   * player, and returning them
+   * player, and returning them. The player is placed at this town's spawn point if its settings
+   * have one, or otherwise at one of the spawn points of its map, if it has any.
    *
    * @param newPlayer The new player to add to the town
+   * @param clientAddress The IP address that the player is joining from, if it is known
    */
-  async addPlayer(newPlayer: Player): Promise<PlayerSession> {
-    const theSession = new PlayerSession(newPlayer);
+  async addPlayer(newPlayer: Player, clientAddress?: string): Promise<PlayerSession> {
+    const theSession = new PlayerSession(newPlayer, clientAddress);
+
+    // Place the player at the town's spawn point, or at one of the map's spawn points, if it has any
+    const spawnPoints = this._settings.spawnPoint ? [this._settings.spawnPoint] : this._map?.spawnPoints ?? [];
+    if (spawnPoints.length > 0) {
+      const spawnPoint = spawnPoints[Math.floor(Math.random() * spawnPoints.length)];
+      newPlayer.location = { ...newPlayer.location, x: spawnPoint.x, y: spawnPoint.y };
+    }
+    // The player's first movement is checked against their maximum speed from where they joined
+    theSession.lastMovementTime = Date.now();
 
     this._sessions.push(theSession);
     this._players.push(newPlayer);
 
     // Create a video token for this user to join this town
-    theSession.videoToken = await this._videoClient.getTokenForTown(
-      this._coveyTownID,
-      newPlayer.id,
-    );
+    try {
+      theSession.videoToken = await this._videoClient.getTokenForTown(
+        this._coveyTownID,
+        newPlayer.id,
+      );
+    } catch (err) {
+      Metrics.getInstance().videoTokenFailures.inc();
+      // The player never joined, so their spot in the town is given back
+      this._sessions = this._sessions.filter(s => s !== theSession);
+      this._players = this._players.filter(p => p !== newPlayer);
+      throw err;
+    }
 
     // Notify other players that this player has joined
     this._listeners.forEach(listener => listener.onPlayerJoined(newPlayer));
@@ -112,11 +487,19 @@ export default class CoveyTownController {
   }
 
   /**
-   * Destroys all data related to a player in this town.
+   * Destroys all data related to a player in this town. Does nothing if the session has already
+   * been destroyed.
    *
    * @param session PlayerSession to destroy
    */
   destroySession(session: PlayerSession): void {
+    if (!this._sessions.includes(session)) {
+      return;
+    }
+    if (session.gracePeriodTimer) {
+      clearTimeout(session.gracePeriodTimer);
+      session.gracePeriodTimer = undefined;
+    }
     this._players = this._players.filter(p => p.id !== session.player.id);
     this._sessions = this._sessions.filter(s => s.sessionToken !== session.sessionToken);
     this._listeners.forEach(listener => listener.onPlayerDisconnected(session.player));
@@ -124,23 +507,424 @@ export default class CoveyTownController {
     if (conversation) {
       this.removePlayerFromConversationArea(session.player, conversation);
     }
+    // Forget the waitlist entry that the session was admitted from, if its client never collected it
+    this._waitlist = this._waitlist.filter(entry => entry.session !== session);
+    this.admitFromWaitlist();
+  }
+
+  /**
+   * Handles the client of a player disconnecting. Unless the player is still connected through
+   * another client, their session (and their place in the town) is kept for the grace period, in
+   * case the disconnection was transient. The session is destroyed if the player has not
+   * reconnected by the end of the grace period.
+   *
+   * @param session the session of the player whose client disconnected
+   */
+  disconnectSession(session: PlayerSession): void {
+    if (!this._sessions.includes(session) || session.gracePeriodTimer
+      || this.isPlayerConnected(session.player.id)) {
+      return;
+    }
+    if (this._sessionGracePeriod <= 0) {
+      this.destroySession(session);
+      return;
+    }
+    this.startGracePeriod(session, this._sessionGracePeriod);
+  }
+
+  /**
+   * Destroys a session at the end of a grace period, unless a client connects to it (and
+   * resumes it) before then
+   *
+   * @param session a session that no client is connected to
+   * @param gracePeriod time (in ms) to wait for a client to connect
+   */
+  private startGracePeriod(session: PlayerSession, gracePeriod: number): void {
+    session.gracePeriodTimer = setTimeout(() => {
+      session.gracePeriodTimer = undefined;
+      this.destroySession(session);
+    }, gracePeriod);
+    // Don't keep the server running just to destroy sessions
+    session.gracePeriodTimer.unref();
+  }
+
+  /**
+   * Handles the client of a player reconnecting to their existing session, cancelling the
+   * destruction of the session if it was in its grace period.
+   *
+   * @param session the session that the player's client reconnected to
+   * @returns true if the session was in its grace period, otherwise false
+   */
+  resumeSession(session: PlayerSession): boolean {
+    if (!session.gracePeriodTimer || !this._sessions.includes(session)) {
+      return false;
+    }
+    clearTimeout(session.gracePeriodTimer);
+    session.gracePeriodTimer = undefined;
+    return true;
+  }
+
+  /**
+   * Removes a player from this town: notifies the listeners that are subscribed on the player's
+   * behalf (so that their client can be told why it is being disconnected), and then destroys
+   * the player's session. The player may rejoin later, unless they have been banned.
+   *
+   * @param playerID ID of the player to remove
+   * @param reason why the player is being removed
+   * @returns true if the player was removed, or false if there is no such player in this town
+   */
+  kickPlayer(playerID: string, reason: PlayerRemovalReason = 'kicked'): boolean {
+    const session = this._sessions.find(eachSession => eachSession.player.id === playerID);
+    if (!session) {
+      return false;
+    }
+    this.listenersForPlayer(playerID).forEach(listener => listener.onPlayerKicked(reason));
+    this.destroySession(session);
+    return true;
+  }
+
+  /**
+   * Removes a player from this town, and prevents anyone with the same username, or joining from
+   * the same IP address, from joining it again.
+   *
+   * @param playerID ID of the player to ban
+   * @returns true if the player was banned, or false if there is no such player in this town
+   */
+  banPlayer(playerID: string): boolean {
+    const session = this._sessions.find(eachSession => eachSession.player.id === playerID);
+    if (!session) {
+      return false;
+    }
+    const userName = session.player.userName.toLowerCase();
+    if (!this._bannedUserNames.includes(userName)) {
+      this._bannedUserNames.push(userName);
+    }
+    if (session.clientAddress !== undefined && !this._bannedAddresses.includes(session.clientAddress)) {
+      this._bannedAddresses.push(session.clientAddress);
+    }
+    return this.kickPlayer(playerID, 'banned');
+  }
+
+  /**
+   * Records that a player has done something (moved, chatted or sent a heartbeat), so that they
+   * are not considered idle. If the player was away, they are no longer away, and the listeners
+   * are notified.
+   *
+   * @param session session of the player who did something
+   * @param now the current time, in ms since the epoch
+   */
+  recordActivity(session: PlayerSession, now = Date.now()): void {
+    session.lastActivityTime = Math.max(session.lastActivityTime, now);
+    if (session.player.isAway) {
+      session.player.isAway = false;
+      this._listeners.forEach(listener => listener.onPlayerAwayStatusChanged(session.player));
+    }
+  }
+
+  /**
+   * Changes the status, status message and/or avatar of a player, after checking that:
+   * * The status is one of 'available', 'busy' or 'do-not-disturb'
+   * * The status message is no longer than the maximum status message length
+   * * The avatar is a short identifier made of letters, digits, dashes and underscores
+   *
+   * Notifies any CoveyTownListeners that the player's profile has been updated
+   *
+   * @param session session of the player who is changing their profile
+   * @param profile the parts of the profile to change; parts that are not included are unchanged
+   * @returns true if the profile is valid and was changed, otherwise false
+   */
+  updatePlayerProfile(session: PlayerSession, profile: Partial<PlayerProfile>): boolean {
+    this.recordActivity(session);
+    if (this._isReadOnly || typeof profile !== 'object' || profile === null) {
+      return false;
+    }
+    const { status, statusMessage, avatar } = profile;
+    if (status !== undefined && !PLAYER_STATUSES.includes(status)) {
+      return false;
+    }
+    if (statusMessage !== undefined
+      && (typeof statusMessage !== 'string' || statusMessage.length > MAX_STATUS_MESSAGE_LENGTH)) {
+      return false;
+    }
+    if (avatar !== undefined && (typeof avatar !== 'string' || !AVATAR_PATTERN.test(avatar))) {
+      return false;
+    }
+    const { player } = session;
+    player.status = status ?? player.status;
+    player.statusMessage = statusMessage ?? player.statusMessage;
+    player.avatar = avatar ?? player.avatar;
+    this._listeners.forEach(listener => listener.onPlayerProfileUpdated(player));
+    return true;
+  }
+
+  /**
+   * Checks every session in this town for players who have been idle for too long:
+   * * Players who have been idle for the away time are marked as away (and the listeners are
+   *   notified), and are removed from their conversation area
+   * * Players who have been idle for the idle disconnect time are removed from the town
+   *
+   * @param now the current time, in ms since the epoch
+   */
+  checkIdleSessions(now = Date.now()): void {
+    this._sessions.forEach(session => {
+      const idleTime = now - session.lastActivityTime;
+      const { player } = session;
+      if (idleTime >= this._idleDisconnectTime) {
+        this.kickPlayer(player.id, 'idle');
+      } else if (idleTime >= this._awayTime && !player.isAway) {
+        player.isAway = true;
+        this._listeners.forEach(listener => listener.onPlayerAwayStatusChanged(player));
+        const conversation = player.activeConversationArea;
+        if (conversation) {
+          player.activeConversationArea = undefined;
+          player.location.conversationLabel = undefined;
+          this.removePlayerFromConversationArea(player, conversation);
+        }
+      }
+    });
+  }
+
+  /**
+   * Checks whether a password is valid for joining this town
+   *
+   * @param joinPassword the password provided by the player, if any
+   * @returns true if this town does not have a join password, or the password matches it
+   */
+  isValidJoinPassword(joinPassword?: string): boolean {
+    return this._joinPassword === undefined || joinPassword === this._joinPassword;
+  }
+
+  /**
+   * Creates a new invite to this town
+   *
+   * @param expiresAt time after which the invite may no longer be used, in ms since the epoch, or
+   *  undefined if it never expires
+   * @param maxUses number of times that the invite may be used, or undefined if there is no limit
+   * @param role role that players who join with the invite are given
+   * @param now the current time, in ms since the epoch
+   * @returns the new invite, or undefined if the expiry time is not in the future, the maximum
+   *  number of uses is not a positive whole number, or the role is not valid
+   */
+  createInvite(expiresAt?: number, maxUses?: number, role: TownRole = 'member', now = Date.now()): TownInvite | undefined {
+    if (expiresAt !== undefined && !(Number.isFinite(expiresAt) && expiresAt > now)) {
+      return undefined;
+    }
+    if (maxUses !== undefined && !(Number.isInteger(maxUses) && maxUses > 0)) {
+      return undefined;
+    }
+    if (!TOWN_ROLES.includes(role)) {
+      return undefined;
+    }
+    const invite: TownInvite = {
+      inviteToken: nanoid(), expiresAt, maxUses, uses: 0, role,
+    };
+    // Forget about invites that have expired, since they can never be used again
+    this._invites = this.getInvites(now).concat([invite]);
+    return invite;
+  }
+
+  /**
+   * @param now the current time, in ms since the epoch
+   * @returns the invites to this town that may still be used
+   */
+  getInvites(now = Date.now()): TownInvite[] {
+    return this._invites.filter(invite => CoveyTownController.isUsableInvite(invite, now));
+  }
+
+  /**
+   * Fetch an invite to this town based on its token
+   *
+   * @param inviteToken
+   * @param now the current time, in ms since the epoch
+   * @returns the invite, or undefined if there is no such invite, or it may no longer be used
+   */
+  getInvite(inviteToken: string, now = Date.now()): TownInvite | undefined {
+    return this.getInvites(now).find(invite => invite.inviteToken === inviteToken);
+  }
+
+  /**
+   * Records that a player joined this town with an invite
+   *
+   * @param invite the invite that was used
+   */
+  redeemInvite(invite: TownInvite): void {
+    invite.uses += 1;
+    this._invites = this._invites.filter(eachInvite => eachInvite.maxUses === undefined
+      || eachInvite.uses < eachInvite.maxUses);
+  }
+
+  /**
+   * Gives back a use of an invite that was redeemed by a player who then failed to join this town.
+   * An invite that has been revoked since it was redeemed stays revoked.
+   *
+   * @param invite the invite that was redeemed
+   */
+  releaseInvite(invite: TownInvite): void {
+    invite.uses -= 1;
+    if (!this._invites.includes(invite) && !this._revokedInviteTokens.includes(invite.inviteToken)) {
+      this._invites.push(invite);
+    }
+  }
+
+  /**
+   * Revokes an invite to this town, so that it may no longer be used
+   *
+   * @param inviteToken
+   * @returns true if the invite was revoked, or false if there is no such invite
+   */
+  revokeInvite(inviteToken: string): boolean {
+    const numInvites = this._invites.length;
+    this._invites = this._invites.filter(invite => invite.inviteToken !== inviteToken);
+    if (this._invites.length === numInvites) {
+      return false;
+    }
+    this._revokedInviteTokens.push(inviteToken);
+    return true;
+  }
+
+  private static isUsableInvite(invite: TownInvite, now: number): boolean {
+    return (invite.expiresAt === undefined || invite.expiresAt > now)
+      && (invite.maxUses === undefined || invite.uses < invite.maxUses);
+  }
+
+  /**
+   * Checks whether a player has been banned from joining this town
+   *
+   * @param userName the username that the player would like to join with
+   * @param clientAddress the IP address that the player is joining from, if it is known
+   * @returns true if the username or IP address has been banned, otherwise false
+   */
+  isBanned(userName: string, clientAddress?: string): boolean {
+    return this._bannedUserNames.includes(userName.toLowerCase())
+      || (clientAddress !== undefined && this._bannedAddresses.includes(clientAddress));
+  }
+
+  /**
+   * Adds a request to join this town to the end of its waitlist. If the town is not full, the
+   * request is admitted right away.
+   *
+   * @param userName the username that the player will have once they are admitted
+   * @param clientAddress the IP address that the request was made from, if it is known
+   * @returns the new waitlist entry
+   */
+  joinWaitlist(userName: string, clientAddress?: string): WaitlistEntry {
+    const entry = new WaitlistEntry(userName, clientAddress);
+    this._waitlist.push(entry);
+    this.admitFromWaitlist();
+    return entry;
+  }
+
+  /**
+   * Fetch a waitlist entry based on its ticket. Returns undefined if the ticket is not valid.
+   *
+   * @param ticket
+   */
+  getWaitlistEntry(ticket: string): WaitlistEntry | undefined {
+    return this._waitlist.find(entry => entry.ticket === ticket);
+  }
+
+  /**
+   * @param entry
+   * @returns the position of the entry on the waitlist, starting at 1, or 0 if the entry has
+   *  already been admitted
+   */
+  getWaitlistPosition(entry: WaitlistEntry): number {
+    if (entry.isAdmitted) {
+      return 0;
+    }
+    return this._waitlist.filter(eachEntry => !eachEntry.isAdmitted).indexOf(entry) + 1;
+  }
+
+  /**
+   * Removes an entry from the waitlist, either because the client no longer wants to wait, or
+   * because the client has been told that it was admitted. Notifies the listeners of the
+   * entries behind it that their position has changed.
+   *
+   * @param ticket ticket of the entry to remove
+   * @returns true if the entry is removed, or false if there is no such entry
+   */
+  leaveWaitlist(ticket: string): boolean {
+    const entry = this.getWaitlistEntry(ticket);
+    if (!entry) {
+      return false;
+    }
+    this._waitlist = this._waitlist.filter(eachEntry => eachEntry !== entry);
+    if (!entry.isAdmitted) {
+      this.notifyWaitlistPositions();
+    }
+    return true;
+  }
+
+  /**
+   * Admits as many entries from the front of the waitlist as there is capacity for, adding a new
+   * player to the town for each of them, and notifying the listeners of the admitted entries and
+   * of the entries that are still waiting.
+   *
+   * Each admitted session is destroyed (along with its waitlist entry) if the client that was
+   * waiting has gone away and does not connect to it within the admission timeout. If a
+   * player can not be added, their entry goes back to the front of the waitlist.
+   */
+  private admitFromWaitlist(): void {
+    let admitted = false;
+    let nextEntry = this._waitlist.find(entry => !entry.isAdmitted);
+    while (nextEntry && !this.isFull) {
+      const entry = nextEntry;
+      // addPlayer adds the player synchronously, so the town's capacity is immediately updated
+      const admission = this.addPlayer(new Player(entry.userName), entry.clientAddress);
+      admission.then(session => {
+        entry.session = session;
+        this.startGracePeriod(session, this._waitlistAdmissionTimeout);
+        entry.listener?.onWaitlistAdmitted(session);
+      }).catch(err => {
+        logError(err);
+        entry.isAdmitted = false;
+        this.notifyWaitlistPositions();
+      });
+      entry.isAdmitted = true;
+      admitted = true;
+      nextEntry = this._waitlist.find(eachEntry => !eachEntry.isAdmitted);
+    }
+    if (admitted) {
+      this.notifyWaitlistPositions();
+    }
+  }
+
+  /**
+   * Notifies the listener of every entry that is still waiting of its current position
+   */
+  private notifyWaitlistPositions(): void {
+    this._waitlist.filter(entry => !entry.isAdmitted)
+      .forEach((entry, index) => entry.listener?.onWaitlistPositionChanged(index + 1));
   }
 
   /**
    * Updates the location of a player within the town
    * 
+   * The conversation area that the player is in is determined by the server from the player's
+   * x,y coordinates: the `conversationLabel` reported by the client is ignored, and replaced by
+   * the label of the conversation area that actually contains the player (if any), so that
+   * listeners are always told the authoritative conversation area.
+   * 
    * If the player has changed conversation areas, this method also updates the
    * corresponding ConversationArea objects tracked by the town controller, and dispatches
    * any onConversationUpdated events as appropriate
    * 
+   * If this town has a map, locations inside of solid tiles (walls) are rejected.
+   * 
    * @param player Player to update location for
    * @param location New location for this player
+   * 
+   * @returns true if the player's location is updated, or false if the location is rejected
    */
-  updatePlayerLocation(player: Player, location: UserLocation): void {
-    const conversation = this.conversationAreas.find(conv => conv.label === location.conversationLabel);
+  updatePlayerLocation(player: Player, location: UserLocation): boolean {
+    if (this._map?.isSolidAt(location.x, location.y)) {
+      return false;
+    }
     const prevConversation = player.activeConversationArea;
 
     player.location = location;
+    const conversation = this.conversationAreas.find(conv => player.isWithin(conv));
+    player.location.conversationLabel = conversation?.label;
     player.activeConversationArea = conversation;
 
     if (conversation !== prevConversation) {
@@ -150,15 +934,176 @@ export default class CoveyTownController {
       if (conversation) {
         conversation.occupantsByID.push(player.id);
         this._listeners.forEach(listener => listener.onConversationAreaUpdated(conversation));
+        this.sendConversationChatHistory(player, conversation);
       }
     }
 
     this._listeners.forEach(listener => listener.onPlayerMoved(player));
+    return true;
+  }
+
+  /**
+   * Updates the location of a player based on a movement reported by their client, after
+   * checking that the movement is valid:
+   * * The location must have finite x,y coordinates that are within the bounds of this town
+   * * The rotation must be a valid Direction, and moving must be a boolean
+   * * The player must not have moved further than their maximum speed allows since their last
+   *   accepted movement, or since they joined (at their spawn point) if they have not moved yet
+   * * If this town has a map, the location must not be inside a solid tile
+   *
+   * Invalid movements are ignored, and not reported to any listeners. Players may not move at all
+   * in a read-only (replay) town.
+   *
+   * @param session session of the player who is moving
+   * @param location new location reported by the player's client
+   * @param now the current time, in ms since the epoch
+   *
+   * @returns true if the movement is valid and the player's location is updated, or false if not
+   */
+  movePlayer(session: PlayerSession, location: UserLocation, now = Date.now()): boolean {
+    this.recordActivity(session, now);
+    if (this._isReadOnly || !this.isValidLocation(location)) {
+      return false;
+    }
+    const { player } = session;
+    const distance = Math.hypot(location.x - player.location.x, location.y - player.location.y);
+    const elapsedSeconds = Math.max(now - session.lastMovementTime, 0) / 1000;
+    if (distance > this._maxPlayerSpeed * elapsedSeconds + MOVEMENT_TOLERANCE) {
+      return false;
+    }
+    if (!this.updatePlayerLocation(player, location)) {
+      return false;
+    }
+    session.lastMovementTime = now;
+    return true;
+  }
+
+  /**
+   * Checks whether a bounding box is no larger than this town's settings allow conversation
+   * areas to be
+   *
+   * @param boundingBox the bounding box of a new or updated conversation area
+   */
+  private isAllowedConversationAreaSize(boundingBox: BoundingBox): boolean {
+    const maxSize = this._settings.maxConversationAreaSize;
+    return !maxSize || (boundingBox.width <= maxSize.width && boundingBox.height <= maxSize.height);
+  }
+
+  /**
+   * Checks whether new settings for this town are valid (see CoveyTownController.areValidSettings)
+   *
+   * @param settings the settings to check; settings that are not included are not checked
+   * @returns true if every included setting is valid, otherwise false
+   */
+  isValidSettings(settings: TownSettingsUpdate): boolean {
+    return CoveyTownController.areValidSettings(settings, this._bounds, this._map);
+  }
+
+  /**
+   * Checks whether the settings requested for a new town are valid, before the town is created
+   *
+   * @param settings the settings to check; settings that are not included are not checked
+   * @param map the map that the new town will have, if any
+   * @returns true if every included setting is valid, otherwise false
+   */
+  static isValidNewTownSettings(settings: Partial<TownSettings>, map?: TownMap): boolean {
+    return CoveyTownController.areValidSettings(settings, map?.bounds ?? defaultTownBounds(), map);
+  }
+
+  /**
+   * Checks whether settings are valid for a town with the given bounds and map:
+   * * The capacity must be a positive whole number
+   * * Conversation area creation must be either 'anyone' or 'owner'
+   * * The maximum conversation area size must have a positive width and height, or be null
+   * * The spawn point must be within the bounds of the town, and not inside of a wall, or be null
+   *
+   * @param settings the settings to check; settings that are not included are not checked
+   * @param bounds the region that players may move within in the town
+   * @param map the map of the town, if it has one
+   * @returns true if every included setting is valid, otherwise false
+   */
+  private static areValidSettings(settings: TownSettingsUpdate, bounds: TownBounds, map?: TownMap): boolean {
+    const { capacity, conversationAreaCreation, maxConversationAreaSize, spawnPoint } = settings;
+    if (capacity !== undefined && !(Number.isInteger(capacity) && capacity > 0)) {
+      return false;
+    }
+    if (conversationAreaCreation !== undefined && conversationAreaCreation !== 'anyone'
+      && conversationAreaCreation !== 'owner') {
+      return false;
+    }
+    if (maxConversationAreaSize !== undefined && maxConversationAreaSize !== null && !(
+      typeof maxConversationAreaSize === 'object' && maxConversationAreaSize !== null &&
+      Number.isFinite(maxConversationAreaSize.width) && maxConversationAreaSize.width > 0 &&
+      Number.isFinite(maxConversationAreaSize.height) && maxConversationAreaSize.height > 0)) {
+      return false;
+    }
+    if (spawnPoint !== undefined && spawnPoint !== null && !(
+      typeof spawnPoint === 'object' &&
+      Number.isFinite(spawnPoint.x) && Number.isFinite(spawnPoint.y) &&
+      spawnPoint.x >= 0 && spawnPoint.x <= bounds.width &&
+      spawnPoint.y >= 0 && spawnPoint.y <= bounds.height &&
+      !map?.isSolidAt(spawnPoint.x, spawnPoint.y))) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Changes some of the settings of this town. Conversation areas that already exist are not
+   * affected by a smaller maximum conversation area size, and players that are already in the
+   * town are not removed if the capacity is reduced. If the capacity is increased, players are
+   * admitted from the waitlist.
+   *
+   * @param settings the settings to change; settings that are not included are left unchanged,
+   *  and the optional settings that are null are removed
+   * @returns true if the settings are valid and were changed, otherwise false
+   */
+  updateSettings(settings: TownSettingsUpdate): boolean {
+    if (!this.isValidSettings(settings)) {
+      return false;
+    }
+    let { maxConversationAreaSize, spawnPoint } = this._settings;
+    if (settings.maxConversationAreaSize !== undefined) {
+      maxConversationAreaSize = settings.maxConversationAreaSize
+        ? { width: settings.maxConversationAreaSize.width, height: settings.maxConversationAreaSize.height }
+        : undefined;
+    }
+    if (settings.spawnPoint !== undefined) {
+      spawnPoint = settings.spawnPoint ? { x: settings.spawnPoint.x, y: settings.spawnPoint.y } : undefined;
+    }
+    this._settings = {
+      capacity: settings.capacity ?? this._settings.capacity,
+      conversationAreaCreation: settings.conversationAreaCreation ?? this._settings.conversationAreaCreation,
+      maxConversationAreaSize,
+      spawnPoint,
+    };
+    this.admitFromWaitlist();
+    return true;
+  }
+
+  /**
+   * Checks that a location reported by a client is well-formed and within the bounds of this town
+   *
+   * @param location the location to check
+   * @returns true if the location is valid, otherwise false
+   */
+  private isValidLocation(location: UserLocation): boolean {
+    return (
+      typeof location === 'object' && location !== null &&
+      Number.isFinite(location.x) && Number.isFinite(location.y) &&
+      location.x >= 0 && location.x <= this._bounds.width &&
+      location.y >= 0 && location.y <= this._bounds.height &&
+      DIRECTIONS.includes(location.rotation) &&
+      typeof location.moving === 'boolean' &&
+      (location.conversationLabel === undefined || typeof location.conversationLabel === 'string')
+    );
   }
 
   /**
    * Removes a player from a conversation area, updating the conversation area's occupants list, 
-   * and emitting the appropriate message (area updated or area destroyed)
+   * and emitting the appropriate message (area updated or area destroyed). Pinned conversation
+   * areas are never destroyed, even once they are empty. The chat history of a destroyed
+   * conversation area is discarded.
    * 
    * Does not update the player's activeConversationArea property.
    * 
@@ -167,9 +1112,11 @@ export default class CoveyTownController {
    */
   removePlayerFromConversationArea(player: Player, conversation: ServerConversationArea) : void {
     conversation.occupantsByID.splice(conversation.occupantsByID.findIndex(p=>p === player.id), 1);
-    if (conversation.occupantsByID.length === 0) {
+    if (conversation.occupantsByID.length === 0 && !conversation.isPinned) {
       this._conversationAreas.splice(this._conversationAreas.findIndex(conv => conv === conversation), 1);
+      delete this._conversationChatHistories[conversation.label];
       this._listeners.forEach(listener => listener.onConversationAreaDestroyed(conversation));
+      this.notifyConversationAreasChanged();
     } else {
       this._listeners.forEach(listener => listener.onConversationAreaUpdated(conversation));
     }
@@ -186,9 +1133,14 @@ export default class CoveyTownController {
    * @param _conversationArea Information describing the conversation area to create. Ignores any
    *  occupantsById that are set on the conversation area that is passed to this method.
    *
-   * @returns true if the conversation is successfully created, or false if not
+   * @returns true if the conversation is successfully created, or false if not (for instance, if
+   *  its bounding box is not valid, overlaps another conversation area or a wall on this town's
+   *  map, or is larger than this town's settings allow)
    */
   addConversationArea(_conversationArea: ServerConversationArea): boolean {
+    if (this._isReadOnly) {
+      return false;
+    }
     if (this._conversationAreas.find(
       eachExistingConversation => eachExistingConversation.label === _conversationArea.label,
     ))
@@ -196,16 +1148,279 @@ export default class CoveyTownController {
     if (_conversationArea.topic === ''){
       return false;
     }
+    if (!CoveyTownController.isValidBoundingBox(_conversationArea.boundingBox)) {
+      return false;
+    }
     if (this._conversationAreas.find(eachExistingConversation => 
       CoveyTownController.boxesOverlap(eachExistingConversation.boundingBox, _conversationArea.boundingBox)) !== undefined){
       return false;
     }
+    if (this._map?.overlapsSolidTile(_conversationArea.boundingBox)) {
+      return false;
+    }
+    if (!this.isAllowedConversationAreaSize(_conversationArea.boundingBox)) {
+      return false;
+    }
     const newArea :ServerConversationArea = Object.assign(_conversationArea);
     this._conversationAreas.push(newArea);
     const playersInThisConversation = this.players.filter(player => player.isWithin(newArea));
     playersInThisConversation.forEach(player => {player.activeConversationArea = newArea;});
     newArea.occupantsByID = playersInThisConversation.map(player => player.id);
     this._listeners.forEach(listener => listener.onConversationAreaUpdated(newArea));
+    this.notifyConversationAreasChanged();
+    return true;
+  }
+
+  /**
+   * Updates the topic, bounding box and/or pinned status of an existing conversation area.
+   *
+   * If the bounding box changes, the occupants of the conversation area are recomputed: players
+   * who are no longer within the area are removed from it, and players who are now within the
+   * area (and not already in another conversation area) are added to it.
+   *
+   * Notifies any CoveyTownListeners that the conversation has been updated, or that it has been
+   * destroyed if it is unpinned while it has no occupants, or if the new bounding box leaves an
+   * unpinned area without its last occupants
+   *
+   * @param conversationLabel label of the conversation area to update
+   * @param topic new topic for the conversation area, or undefined to keep the existing topic
+   * @param boundingBox new bounding box for the conversation area, or undefined to keep the
+   *  existing bounding box
+   * @param isPinned whether the conversation area should be pinned, or undefined to keep the
+   *  existing pinned status
+   *
+   * @returns true if the conversation area is successfully updated, or false if there is no
+   *  such conversation area, the topic is empty, or the new bounding box is not valid, overlaps
+   *  another area or a wall, or is larger than this town's settings allow
+   */
+  updateConversationArea(conversationLabel: string, topic?: string, boundingBox?: BoundingBox, isPinned?: boolean): boolean {
+    const conversation = this._conversationAreas.find(conv => conv.label === conversationLabel);
+    if (this._isReadOnly || !conversation) {
+      return false;
+    }
+    if (topic === '') {
+      return false;
+    }
+    if (boundingBox && !CoveyTownController.isValidBoundingBox(boundingBox)) {
+      return false;
+    }
+    if (boundingBox && this._conversationAreas.find(eachExistingConversation =>
+      eachExistingConversation !== conversation &&
+      CoveyTownController.boxesOverlap(eachExistingConversation.boundingBox, boundingBox)) !== undefined) {
+      return false;
+    }
+    if (boundingBox && this._map?.overlapsSolidTile(boundingBox)) {
+      return false;
+    }
+    if (boundingBox && !this.isAllowedConversationAreaSize(boundingBox)) {
+      return false;
+    }
+    if (topic !== undefined) {
+      conversation.topic = topic;
+    }
+    const hadOccupants = conversation.occupantsByID.length > 0;
+    if (boundingBox) {
+      conversation.boundingBox = boundingBox;
+      this.players.forEach(player => {
+        if (player.activeConversationArea === conversation && !player.isWithin(conversation)) {
+          player.activeConversationArea = undefined;
+          player.location.conversationLabel = undefined;
+        } else if (!player.activeConversationArea && player.isWithin(conversation)) {
+          player.activeConversationArea = conversation;
+          player.location.conversationLabel = conversation.label;
+          this.sendConversationChatHistory(player, conversation);
+        }
+      });
+      conversation.occupantsByID = this.players
+        .filter(player => player.activeConversationArea === conversation)
+        .map(player => player.id);
+    }
+    if (isPinned !== undefined) {
+      conversation.isPinned = isPinned;
+    }
+    if (conversation.occupantsByID.length === 0
+      && (isPinned === false || (hadOccupants && !conversation.isPinned))) {
+      return this.destroyConversationArea(conversationLabel);
+    }
+    this._listeners.forEach(listener => listener.onConversationAreaUpdated(conversation));
+    this.notifyConversationAreasChanged();
+    return true;
+  }
+
+  /**
+   * Destroys an existing conversation area, removing all of its occupants from it, and
+   * discarding its chat history
+   *
+   * Notifies any CoveyTownListeners that the conversation has been destroyed
+   *
+   * @param conversationLabel label of the conversation area to destroy
+   *
+   * @returns true if the conversation area is successfully destroyed, or false if there is no
+   *  such conversation area
+   */
+  destroyConversationArea(conversationLabel: string): boolean {
+    const conversation = this._conversationAreas.find(conv => conv.label === conversationLabel);
+    if (this._isReadOnly || !conversation) {
+      return false;
+    }
+    this.players
+      .filter(player => player.activeConversationArea === conversation)
+      .forEach(player => {
+        player.activeConversationArea = undefined;
+        player.location.conversationLabel = undefined;
+      });
+    conversation.occupantsByID = [];
+    this._conversationAreas = this._conversationAreas.filter(conv => conv !== conversation);
+    delete this._conversationChatHistories[conversation.label];
+    this._listeners.forEach(listener => listener.onConversationAreaDestroyed(conversation));
+    this.notifyConversationAreasChanged();
+    return true;
+  }
+
+  /**
+   * Sends a chat message from a player to everyone in this town, or to everyone in a conversation
+   * area, after checking that:
+   * * The message is not empty, and no longer than the maximum message length
+   * * The player has not sent too many messages recently
+   * * If the message is for a conversation area, the player is in that conversation area
+   *
+   * Town-wide messages are added to this town's chat history, and dispatched to every listener.
+   * Conversation area messages are added to that conversation area's chat history, and only
+   * dispatched to the listeners of the players in that conversation area.
+   *
+   * @param session session of the player who is sending the message
+   * @param body text of the message
+   * @param conversationLabel label of the conversation area to send the message to, or
+   *  undefined to send the message to the whole town
+   * @param now the current time, in ms since the epoch
+   *
+   * @returns true if the message is sent, or false if it is rejected
+   */
+  sendChatMessage(session: PlayerSession, body: string, conversationLabel?: string, now = Date.now()): boolean {
+    this.recordActivity(session, now);
+    if (this._isReadOnly) {
+      return false;
+    }
+    if (typeof body !== 'string' || body.trim().length === 0 || body.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return false;
+    }
+    const conversation = session.player.activeConversationArea;
+    if (conversationLabel !== undefined && conversation?.label !== conversationLabel) {
+      return false;
+    }
+    const recentMessageTimes = session.recentChatMessageTimes.filter(time => now - time < CHAT_RATE_WINDOW_MS);
+    if (recentMessageTimes.length >= CHAT_RATE_LIMIT) {
+      return false;
+    }
+    session.recentChatMessageTimes = recentMessageTimes.concat([now]);
+
+    const message: ChatMessage = {
+      id: nanoid(),
+      authorID: session.player.id,
+      authorName: session.player.userName,
+      body,
+      timestamp: now,
+      conversationLabel,
+    };
+    if (conversation && conversationLabel !== undefined) {
+      const history = this._conversationChatHistories[conversationLabel] ?? [];
+      this._conversationChatHistories[conversationLabel] = history.concat([message]).slice(-CHAT_HISTORY_LENGTH);
+      conversation.occupantsByID.forEach(playerID => this.listenersForPlayer(playerID)
+        .forEach(listener => listener.onChatMessage(message)));
+    } else {
+      this._chatHistory = this._chatHistory.concat([message]).slice(-CHAT_HISTORY_LENGTH);
+      this._listeners.forEach(listener => listener.onChatMessage(message));
+    }
+    return true;
+  }
+
+  /**
+   * Privately sends a message from one player to another, after checking that:
+   * * The message is not empty, and no longer than the maximum message length
+   * * The sender has not sent too many messages recently
+   * * The recipient is a different player who is currently connected to this town
+   *
+   * Direct messages are only dispatched to the listeners of the recipient, and are not remembered
+   * in any chat history.
+   *
+   * @param session session of the player who is sending the message
+   * @param recipientID ID of the player to send the message to
+   * @param body text of the message
+   * @param now the current time, in ms since the epoch
+   *
+   * @returns the message that was delivered, or undefined if it is rejected
+   */
+  sendDirectMessage(session: PlayerSession, recipientID: string, body: string, now = Date.now()): ChatMessage | undefined {
+    this.recordActivity(session, now);
+    if (this._isReadOnly) {
+      return undefined;
+    }
+    if (typeof body !== 'string' || body.trim().length === 0 || body.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return undefined;
+    }
+    if (recipientID === session.player.id || !this.isPlayerConnected(recipientID)) {
+      return undefined;
+    }
+    const recentMessageTimes = session.recentChatMessageTimes.filter(time => now - time < CHAT_RATE_WINDOW_MS);
+    if (recentMessageTimes.length >= CHAT_RATE_LIMIT) {
+      return undefined;
+    }
+    session.recentChatMessageTimes = recentMessageTimes.concat([now]);
+
+    const message: ChatMessage = {
+      id: nanoid(),
+      authorID: session.player.id,
+      authorName: session.player.userName,
+      body,
+      timestamp: now,
+      recipientID,
+    };
+    this.listenersForPlayer(recipientID).forEach(listener => listener.onDirectMessage(message));
+    return message;
+  }
+
+  /**
+   * Checks whether a player currently has a listener subscribed to this town on their behalf
+   * (i.e. whether their client is connected)
+   *
+   * @param playerID
+   * @returns true if the player is connected, otherwise false
+   */
+  isPlayerConnected(playerID: string): boolean {
+    return this.listenersForPlayer(playerID).length > 0;
+  }
+
+  /**
+   * Sends the recent chat messages of a conversation area to a player who has just entered it
+   *
+   * @param player the player who entered the conversation area
+   * @param conversation the conversation area
+   */
+  private sendConversationChatHistory(player: Player, conversation: ServerConversationArea): void {
+    const history = this._conversationChatHistories[conversation.label];
+    if (history) {
+      this.listenersForPlayer(player.id).forEach(listener => listener.onChatHistory(history));
+    }
+  }
+
+  /**
+   * Changes the map of the world that this town takes place in. The bounds that players may move
+   * within become the bounds of the map.
+   *
+   * @param map the new map
+   * @returns true if the map is changed, or false if any existing conversation area, or this
+   *  town's spawn point, is inside of a wall on the new map
+   */
+  setMap(map: TownMap): boolean {
+    if (this._conversationAreas.some(conversation => map.overlapsSolidTile(conversation.boundingBox))) {
+      return false;
+    }
+    const { spawnPoint } = this._settings;
+    if (spawnPoint && map.isSolidAt(spawnPoint.x, spawnPoint.y)) {
+      return false;
+    }
+    this._map = map;
+    this._bounds = map.bounds;
     return true;
   }
 
@@ -225,14 +1440,49 @@ export default class CoveyTownController {
     return !noOverlap;
   }
 
+  /**
+   * Checks whether a bounding box describes a real region: its center must be at finite
+   * coordinates, and its width and height must be finite and positive
+   *
+   * @param box
+   * @returns true if the bounding box is valid, otherwise false
+   */
+  static isValidBoundingBox(box: BoundingBox): boolean {
+    return typeof box === 'object' && box !== null
+      && Number.isFinite(box.x) && Number.isFinite(box.y)
+      && Number.isFinite(box.width) && box.width > 0
+      && Number.isFinite(box.height) && box.height > 0;
+  }
+
+  /**
+   * Subscribe to changes to the conversation areas of this town: whenever one is created, has its
+   * topic, bounding box or pinned status changed, or is destroyed (including when its last
+   * occupant leaves it). Changes to the occupants of conversation areas are not included.
+   *
+   * @param listener called after each change
+   */
+  addConversationAreasChangeListener(listener: () => void): void {
+    this._conversationAreasChangeListeners.push(listener);
+  }
+
+  private notifyConversationAreasChanged(): void {
+    this._conversationAreasChangeListeners.forEach(listener => listener());
+  }
+
   /**
    * Subscribe to events from this town. Callers should make sure to
    * unsubscribe when they no longer want those events by calling removeTownListener
    *
    * @param listener New listener
+   * @param playerID ID of the player that this listener is subscribing on behalf of, if any.
+   *  Events that are only meant for that player (such as chat messages in their conversation
+   *  area) are only delivered to listeners that are subscribed on their behalf.
    */
-  addTownListener(listener: CoveyTownListener): void {
+  addTownListener(listener: CoveyTownListener, playerID?: string): void {
     this._listeners.push(listener);
+    if (playerID !== undefined) {
+      this._playerListeners.push({ playerID, listener });
+    }
   }
 
   /**
@@ -243,6 +1493,15 @@ export default class CoveyTownController {
    */
   removeTownListener(listener: CoveyTownListener): void {
     this._listeners = this._listeners.filter(v => v !== listener);
+    this._playerListeners = this._playerListeners.filter(v => v.listener !== listener);
+  }
+
+  /**
+   * @param playerID
+   * @returns the listeners that are subscribed on behalf of the given player
+   */
+  private listenersForPlayer(playerID: string): CoveyTownListener[] {
+    return this._playerListeners.filter(v => v.playerID === playerID).map(v => v.listener);
   }
 
   /**
@@ -255,6 +1514,80 @@ export default class CoveyTownController {
     return this._sessions.find(p => p.sessionToken === token);
   }
 
+  /**
+   * Applies an event from a recording of another town to this town, and notifies the listeners
+   * of this town of the same event. Replayed players have no sessions, and replayed conversation
+   * areas are not checked against this town's map or settings, since they were already checked
+   * in the town that was recorded.
+   *
+   * @param event the recorded event
+   */
+  replayEvent(event: RecordedTownEvent): void {
+    switch (event.type) {
+      case 'playerJoined': {
+        const player = new Player(event.player.userName, event.player.id);
+        player.location = { ...event.player.location };
+        this._players.push(player);
+        this._listeners.forEach(listener => listener.onPlayerJoined(player));
+        break;
+      }
+      case 'playerMoved': {
+        const player = this._players.find(p => p.id === event.player.id);
+        if (player) {
+          player.location = { ...event.player.location };
+          player.activeConversationArea = this._conversationAreas
+            .find(conv => conv.label === event.player.location.conversationLabel);
+          this._listeners.forEach(listener => listener.onPlayerMoved(player));
+        }
+        break;
+      }
+      case 'playerDisconnected': {
+        const player = this._players.find(p => p.id === event.playerID);
+        if (player) {
+          this._players = this._players.filter(p => p !== player);
+          this._listeners.forEach(listener => listener.onPlayerDisconnected(player));
+        }
+        break;
+      }
+      case 'conversationAreaUpdated': {
+        const conversation = {
+          ...event.conversationArea,
+          boundingBox: { ...event.conversationArea.boundingBox },
+          occupantsByID: [...event.conversationArea.occupantsByID],
+        };
+        this._conversationAreas = this._conversationAreas
+          .filter(conv => conv.label !== conversation.label)
+          .concat([conversation]);
+        this._players
+          .filter(player => player.activeConversationArea?.label === conversation.label)
+          .forEach(player => { player.activeConversationArea = conversation; });
+        this._listeners.forEach(listener => listener.onConversationAreaUpdated(conversation));
+        break;
+      }
+      case 'conversationAreaDestroyed': {
+        const conversation = this._conversationAreas.find(conv => conv.label === event.conversationArea.label);
+        if (conversation) {
+          this._conversationAreas = this._conversationAreas.filter(conv => conv !== conversation);
+          this._players
+            .filter(player => player.activeConversationArea === conversation)
+            .forEach(player => { player.activeConversationArea = undefined; });
+          this._listeners.forEach(listener => listener.onConversationAreaDestroyed(conversation));
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Notifies the listeners of this town that the server is shutting down
+   * @param secondsRemaining time until every player is disconnected from the town
+   */
+  notifyServerShuttingDown(secondsRemaining: number): void {
+    this._listeners.forEach(listener => listener.onServerShuttingDown(secondsRemaining));
+  }
+
   disconnectAllPlayers(): void {
     this._listeners.forEach(listener => listener.onTownDestroyed());
   }
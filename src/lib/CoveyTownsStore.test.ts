@@ -0,0 +1,209 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { mock, mockDeep } from 'jest-mock-extended';
+import TwilioVideo from './TwilioVideo';
+import CoveyTownsStore from './CoveyTownsStore';
+import FileTownsStorage from './FileTownsStorage';
+import TownMap from './TownMap';
+import CoveyTownListener from '../types/CoveyTownListener';
+import InMemoryTownsStorage from './InMemoryTownsStorage';
+import Player from '../types/Player';
+import { createConversationForTesting, createTiledMapForTesting } from '../client/TestUtils';
+
+const mockTwilioVideo = mockDeep<TwilioVideo>();
+jest.spyOn(TwilioVideo, 'getInstance').mockReturnValue(mockTwilioVideo);
+
+describe('CoveyTownsStore', () => {
+  describe('with a FileTownsStorage backend', () => {
+    let storageFile: string;
+    beforeEach(() => {
+      storageFile = path.join(os.tmpdir(), `covey-towns-${nanoid()}.json`);
+    });
+    afterEach(() => {
+      if (fs.existsSync(storageFile)) {
+        fs.unlinkSync(storageFile);
+      }
+    });
+    it('should start with no towns if the storage file does not exist', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      expect(store.getTowns()).toEqual([]);
+    });
+    it('should restore towns, including their IDs and passwords, in a new store', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const publicTown = store.createTown(nanoid(), true);
+      const privateTown = store.createTown(nanoid(), false);
+
+      const restoredStore = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const restoredPublicTown = restoredStore.getControllerForTown(publicTown.coveyTownID);
+      const restoredPrivateTown = restoredStore.getControllerForTown(privateTown.coveyTownID);
+      expect(restoredPublicTown?.friendlyName).toEqual(publicTown.friendlyName);
+      expect(restoredPublicTown?.isPubliclyListed).toBe(true);
+      expect(restoredPublicTown?.townUpdatePassword).toEqual(publicTown.townUpdatePassword);
+      expect(restoredPrivateTown?.isPubliclyListed).toBe(false);
+      expect(restoredStore.getTowns().map(town => town.coveyTownID)).toEqual([publicTown.coveyTownID]);
+    });
+    it('should save town updates and deletions', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const updatedTown = store.createTown(nanoid(), false);
+      const deletedTown = store.createTown(nanoid(), false);
+      const newName = nanoid();
+      expect(store.updateTown(updatedTown.coveyTownID, updatedTown.townUpdatePassword, newName, true)).toBe(true);
+      expect(store.deleteTown(deletedTown.coveyTownID, deletedTown.townUpdatePassword)).toBe(true);
+
+      const restoredStore = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      expect(restoredStore.getControllerForTown(updatedTown.coveyTownID)?.friendlyName).toEqual(newName);
+      expect(restoredStore.getControllerForTown(updatedTown.coveyTownID)?.isPubliclyListed).toBe(true);
+      expect(restoredStore.getControllerForTown(deletedTown.coveyTownID)).toBeUndefined();
+    });
+    it('should restore conversation areas without their occupants', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const town = store.createTown(nanoid(), false);
+      const conversationArea = createConversationForTesting();
+      town.addConversationArea(conversationArea);
+      conversationArea.occupantsByID.push(nanoid());
+      store.persistTowns();
+
+      const restoredStore = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const restoredAreas = restoredStore.getControllerForTown(town.coveyTownID)?.conversationAreas;
+      expect(restoredAreas).toEqual([{ ...conversationArea, occupantsByID: [] }]);
+    });
+    it('should save conversation areas whenever they change, including when their last occupant leaves', () => {
+      jest.useFakeTimers();
+      try {
+        const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+        const town = store.createTown(nanoid(), false);
+        const conversationArea = createConversationForTesting();
+        expect(town.addConversationArea(conversationArea)).toBe(true);
+        const restoredAreas = () => new CoveyTownsStore(new FileTownsStorage(storageFile))
+          .getControllerForTown(town.coveyTownID)?.conversationAreas;
+        jest.runOnlyPendingTimers();
+        expect(restoredAreas()).toHaveLength(1);
+
+        const player = new Player(nanoid());
+        conversationArea.occupantsByID.push(player.id);
+        town.removePlayerFromConversationArea(player, conversationArea);
+        jest.runOnlyPendingTimers();
+        expect(restoredAreas()).toEqual([]);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+    it('should restore the map of a town', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const town = store.createTown(nanoid(), false, TownMap.fromTiled(createTiledMapForTesting()));
+
+      const restoredStore = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const restoredTown = restoredStore.getControllerForTown(town.coveyTownID);
+      expect(restoredTown?.map?.definition).toEqual(createTiledMapForTesting());
+      expect(restoredTown?.bounds).toEqual({ width: 320, height: 320 });
+    });
+    it('should restore the settings of a town', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const town = store.createTown(nanoid(), false);
+      expect(store.updateTown(town.coveyTownID, town.townUpdatePassword, undefined, undefined,
+        { capacity: 5, spawnPoint: { x: 10, y: 20 } })).toBe(true);
+
+      const restoredStore = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      expect(restoredStore.getControllerForTown(town.coveyTownID)?.settings).toEqual(town.settings);
+      expect(restoredStore.getTowns()).toEqual([]);
+    });
+    it('should create a town with its settings, without recording an update', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const town = store.createTown(nanoid(), false, undefined, undefined, { capacity: 5 });
+      expect(town.capacity).toBe(5);
+      expect(store.getAuditEvents(town.coveyTownID, town.townUpdatePassword)?.map(event => event.type))
+        .toEqual(['townCreated']);
+
+      const restoredStore = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      expect(restoredStore.getControllerForTown(town.coveyTownID)?.capacity).toBe(5);
+    });
+    it('should not apply any changes if the new settings are invalid', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const town = store.createTown(nanoid(), false);
+      expect(store.updateTown(town.coveyTownID, town.townUpdatePassword, 'new name', true,
+        { capacity: -1 })).toBe(false);
+      expect(town.friendlyName).not.toEqual('new name');
+      expect(town.isPubliclyListed).toBe(false);
+    });
+    it('should save templates alongside towns and restore both', () => {
+      const store = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      const town = store.createTown(nanoid(), false);
+      town.addConversationArea(createConversationForTesting());
+      const templateName = nanoid();
+      expect(store.saveTemplate(templateName, town.coveyTownID, nanoid())).toBe(false);
+      expect(store.saveTemplate(templateName, town.coveyTownID, town.townUpdatePassword)).toBe(true);
+      expect(store.saveTemplate(templateName, town.coveyTownID, town.townUpdatePassword)).toBe(false);
+      store.createTown(nanoid(), false);
+
+      const restoredStore = new CoveyTownsStore(new FileTownsStorage(storageFile));
+      expect(restoredStore.getTemplateNames()).toEqual([templateName]);
+      expect(restoredStore.getTemplate(templateName)).toEqual(town.toSnapshot());
+      expect(restoredStore.getControllerForTown(town.coveyTownID)).toBeDefined();
+    });
+  });
+  describe('persistTowns', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('saves a burst of conversation area changes all at once', () => {
+      jest.useFakeTimers();
+      const storage = new InMemoryTownsStorage();
+      const store = new CoveyTownsStore(storage);
+      const town = store.createTown(nanoid(), false);
+      const saveTowns = jest.spyOn(storage, 'saveTowns');
+      town.addConversationArea(createConversationForTesting({ boundingBox: { x: 10, y: 10, width: 5, height: 5 } }));
+      town.addConversationArea(createConversationForTesting({ boundingBox: { x: 100, y: 100, width: 5, height: 5 } }));
+      expect(saveTowns).not.toHaveBeenCalled();
+
+      jest.runOnlyPendingTimers();
+      expect(saveTowns).toHaveBeenCalledTimes(1);
+      expect(saveTowns.mock.calls[0][0][0].conversationAreas).toHaveLength(2);
+    });
+    it('logs a failure to save the towns instead of throwing it', () => {
+      const storage = new InMemoryTownsStorage();
+      const store = new CoveyTownsStore(storage);
+      jest.spyOn(storage, 'saveTowns').mockImplementationOnce(() => {
+        throw new Error('ENOSPC: no space left on device');
+      });
+      const trace = jest.spyOn(console, 'trace').mockImplementationOnce(() => {});
+      expect(() => store.createTown(nanoid(), false)).not.toThrow();
+      expect(trace).toHaveBeenCalled();
+    });
+  });
+  describe('shutdown', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('counts down to every town, then saves every town and disconnects every player', async () => {
+      jest.useFakeTimers();
+      const storage = new InMemoryTownsStorage();
+      const store = new CoveyTownsStore(storage);
+      const town = store.createTown(nanoid(), false);
+      const listener = mock<CoveyTownListener>();
+      town.addTownListener(listener);
+      const saveTowns = jest.spyOn(storage, 'saveTowns');
+
+      const shutdown = store.shutdown(2);
+      expect(store.isShuttingDown).toBe(true);
+      expect(listener.onServerShuttingDown).toHaveBeenCalledWith(2);
+      jest.advanceTimersByTime(1000);
+      expect(listener.onServerShuttingDown).toHaveBeenLastCalledWith(1);
+      expect(listener.onTownDestroyed).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1000);
+      await shutdown;
+      expect(listener.onServerShuttingDown).toHaveBeenCalledTimes(2);
+      expect(saveTowns).toHaveBeenCalled();
+      expect(listener.onTownDestroyed).toHaveBeenCalled();
+    });
+    it('does not save the towns if asked not to', async () => {
+      const storage = new InMemoryTownsStorage();
+      const store = new CoveyTownsStore(storage);
+      store.createTown(nanoid(), false);
+      const saveTowns = jest.spyOn(storage, 'saveTowns');
+      await store.shutdown(0, false);
+      expect(saveTowns).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,5 +1,23 @@
 import CoveyTownController from './CoveyTownController';
-import { CoveyTownList } from '../CoveyTypes';
+import {
+  AuditEvent, AuditEventType, CoveyTownList, TownInvite, TownRole, TownSettings, TownSettingsUpdate,
+} from '../CoveyTypes';
+import AuditLog, { AuditEventFilter } from './AuditLog';
+import ICoveyTownsStorage from './ICoveyTownsStorage';
+import InMemoryTownsStorage from './InMemoryTownsStorage';
+import FileTownsStorage from './FileTownsStorage';
+import TownMap from './TownMap';
+import { TownSnapshot, TownTemplate } from '../types/TownSnapshot';
+import { TownRecording } from '../types/TownRecording';
+import TownRecorder from './TownRecorder';
+import TownReplayer from './TownReplayer';
+import { logError } from '../Utils';
+
+/**
+ * Time (in ms) that saving the towns is delayed by after a frequent change (such as to a
+ * conversation area), so that a burst of changes is saved all at once
+ */
+const PERSIST_DELAY_MS = 1000;
 
 function passwordMatches(provided: string, expected: string): boolean {
   if (provided === expected) {
@@ -16,18 +34,123 @@ export default class CoveyTownsStore {
 
   private _towns: CoveyTownController[] = [];
 
+  private _templates: TownTemplate[] = [];
+
+  private _storage: ICoveyTownsStorage;
+
+  private _auditLog = new AuditLog();
+
+  /** Update passwords of deleted towns, so that their audit logs (including their deletion) can still be read * */
+  private _deletedTowns: { coveyTownID: string; townUpdatePassword: string }[] = [];
+
+  /** Whether the server has started shutting down, and no longer accepts new sessions * */
+  private _isShuttingDown = false;
+
+  /** Recordings of towns that are in progress * */
+  private _recorders: TownRecorder[] = [];
+
+  /** Replays of recordings into replay towns * */
+  private _replayers: TownReplayer[] = [];
+
+  /** Saves the towns once the changes that have been made since it was scheduled have settled * */
+  private _persistTimer?: NodeJS.Timeout;
+
+  /**
+   * Creates a towns store, restoring any towns that were previously saved to the storage backend
+   *
+   * @param storage the backend that towns are saved to whenever they change
+   */
+  constructor(storage: ICoveyTownsStorage = new InMemoryTownsStorage()) {
+    this._storage = storage;
+    this._towns = storage.loadTowns().map(record => CoveyTownController.fromRecord(record));
+    this._towns.forEach(town => this.subscribeToTown(town));
+    this._templates = storage.loadTemplates();
+  }
+
   /**
    * Retrieve the singleton CoveyTownsStore.
    * 
-   * There is only a single instance of the CoveyTownsStore - it follows the singleton pattern
+   * There is only a single instance of the CoveyTownsStore - it follows the singleton pattern.
+   * Towns are saved to the JSON file at the environmental variable TOWN_STORAGE_FILE if it is set,
+   * or otherwise only kept in memory.
    */
   static getInstance(): CoveyTownsStore {
     if (CoveyTownsStore._instance === undefined) {
-      CoveyTownsStore._instance = new CoveyTownsStore();
+      const storage = process.env.TOWN_STORAGE_FILE
+        ? new FileTownsStorage(process.env.TOWN_STORAGE_FILE)
+        : new InMemoryTownsStorage();
+      CoveyTownsStore._instance = new CoveyTownsStore(storage);
     }
     return CoveyTownsStore._instance;
   }
 
+  /**
+   * Saves the current state of every town to the storage backend. This is called automatically
+   * by the methods of this store that change a town. Replay towns are not saved,
+   * since their replay can not be resumed after a restart.
+   *
+   * A failure to save the towns is logged rather than thrown, since the towns are still
+   * available in memory, and are saved again on their next change.
+   */
+  persistTowns(): void {
+    if (this._persistTimer) {
+      clearTimeout(this._persistTimer);
+      this._persistTimer = undefined;
+    }
+    try {
+      this._storage.saveTowns(this._towns.filter(town => !town.isReadOnly).map(town => town.toRecord()));
+    } catch (err) {
+      logError(err);
+    }
+  }
+
+  /**
+   * Saves the towns shortly, unless they are already due to be saved. This is used for changes
+   * that can happen many times in quick succession, such as whenever a town's conversation
+   * areas change, or an invite is redeemed, so that they are saved together.
+   */
+  schedulePersistTowns(): void {
+    if (this._persistTimer) {
+      return;
+    }
+    this._persistTimer = setTimeout(() => this.persistTowns(), PERSIST_DELAY_MS);
+    // Don't keep the server running just to save the towns
+    this._persistTimer.unref();
+  }
+
+  get isShuttingDown(): boolean {
+    return this._isShuttingDown;
+  }
+
+  /**
+   * Shuts down every town: stops accepting new sessions, notifies the players of every town once
+   * a second for the countdown, and then (optionally) saves every town and disconnects all of
+   * the players.
+   *
+   * @param countdownSeconds how long to give players before they are disconnected
+   * @param persist whether to save every town before disconnecting the players
+   * @returns a promise that resolves once every player has been disconnected
+   */
+  shutdown(countdownSeconds: number, persist = true): Promise<void> {
+    this._isShuttingDown = true;
+    return new Promise(resolve => {
+      const countdown = (secondsRemaining: number) => {
+        if (secondsRemaining > 0) {
+          this._towns.forEach(town => town.notifyServerShuttingDown(secondsRemaining));
+          setTimeout(() => countdown(secondsRemaining - 1), 1000);
+          return;
+        }
+        if (persist) {
+          this.persistTowns();
+        }
+        this._replayers.forEach(replayer => replayer.stop());
+        this._towns.forEach(town => town.disconnectAllPlayers());
+        resolve();
+      };
+      countdown(countdownSeconds);
+    });
+  }
+
   /**
    * Given a town ID, fetch the CoveyTownController
    * @param coveyTownID town ID to fetch
@@ -37,6 +160,23 @@ export default class CoveyTownsStore {
     return this._towns.find(town => town.coveyTownID === coveyTownID);
   }
 
+  /**
+   * Given the token of an invite, fetch the CoveyTownController of the town that it is an invite to
+   * @param inviteToken 
+   * @returns the existing town controller, or undefined if there is no town with such an invite,
+   *  or the invite may no longer be used
+   */
+  getControllerForInvite(inviteToken: string): CoveyTownController | undefined {
+    return this._towns.find(town => town.getInvite(inviteToken) !== undefined);
+  }
+
+  /**
+   * @returns every town in this store, including those that are not publicly listed
+   */
+  getAllTowns(): CoveyTownController[] {
+    return this._towns;
+  }
+
   /**
    * @returns List of all publicly visible towns
    */
@@ -47,46 +187,390 @@ export default class CoveyTownsStore {
         friendlyName: townController.friendlyName,
         currentOccupancy: townController.occupancy,
         maximumOccupancy: townController.capacity,
+        requiresJoinPassword: townController.joinPassword !== undefined,
       }));
   }
 
+  /**
+   * Checks whether a password is valid for updating a town
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @returns true if the town exists and the password is valid for it, false otherwise
+   */
+  isValidTownPassword(coveyTownID: string, coveyTownPassword: string): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    return existingTown !== undefined && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword);
+  }
+
+  /**
+   * Records an action that was taken in a town in the audit log
+   * @param coveyTownID 
+   * @param type 
+   * @param actorID ID of the player who took the action, or undefined if it was taken with the
+   *  town update password
+   * @param details human-readable description of what the action affected
+   */
+  recordAuditEvent(coveyTownID: string, type: AuditEventType, actorID?: string, details?: string): void {
+    this._auditLog.record({
+      coveyTownID, type, timestamp: Date.now(), actorID, details,
+    });
+  }
+
+  /**
+   * Fetch the audit log of a town, which may have been deleted, as long as the log still has
+   * events for it. Validates that the provided password is the town's update password
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @param filter criteria that the returned events must match
+   * @returns the matching events, oldest first, or undefined if the password is invalid
+   */
+  getAuditEvents(coveyTownID: string, coveyTownPassword: string, filter?: AuditEventFilter): AuditEvent[] | undefined {
+    const deletedTown = this._deletedTowns.find(town => town.coveyTownID === coveyTownID);
+    if (!this.isValidTownPassword(coveyTownID, coveyTownPassword)
+      && !(deletedTown && passwordMatches(coveyTownPassword, deletedTown.townUpdatePassword))) {
+      return undefined;
+    }
+    return this._auditLog.getEvents(coveyTownID, filter);
+  }
+
+  /**
+   * Subscribes the audit log to a town's events, and schedules saving the towns whenever its
+   * conversation areas change
+   */
+  private subscribeToTown(town: CoveyTownController): void {
+    town.addTownListener(this._auditLog.townListener(town.coveyTownID));
+    town.addConversationAreasChangeListener(() => this.schedulePersistTowns());
+  }
+
+  /**
+   * Registers a new town in this store, subscribing the audit log to its events
+   * @param newTown 
+   */
+  private addTown(newTown: CoveyTownController): void {
+    this._towns.push(newTown);
+    this.subscribeToTown(newTown);
+    this.recordAuditEvent(newTown.coveyTownID, 'townCreated', undefined, newTown.friendlyName);
+    this.persistTowns();
+  }
+
   /**
    * Creates a new town, registering it in the Town Store, and returning that new town
    * @param friendlyName 
    * @param isPubliclyListed 
+   * @param map optional map of the world that the town takes place in
+   * @param joinPassword optional password that players must provide to join the town
+   * @param settings optional settings for the town, which must be valid (see
+   *  CoveyTownController.isValidNewTownSettings); the defaults are used for any that are not included
    * @returns the new town controller
    */
-  createTown(friendlyName: string, isPubliclyListed: boolean): CoveyTownController {
+  createTown(friendlyName: string, isPubliclyListed: boolean, map?: TownMap, joinPassword?: string,
+    settings?: Partial<TownSettings>): CoveyTownController {
     const newTown = new CoveyTownController(friendlyName, isPubliclyListed);
-    this._towns.push(newTown);
+    if (map) {
+      newTown.setMap(map);
+    }
+    newTown.joinPassword = joinPassword || undefined;
+    if (settings !== undefined && !newTown.updateSettings(settings)) {
+      throw new Error('Invalid town settings');
+    }
+    this.addTown(newTown);
     return newTown;
   }
 
+  /**
+   * Creates a new town from a snapshot of another town's configuration, registering it in the
+   * Town Store, and returning that new town
+   * @param snapshot the snapshot, which must have a compatible version
+   * @param isPubliclyListed 
+   * @returns the new town controller, or undefined if the snapshot is not valid
+   */
+  importTown(snapshot: TownSnapshot, isPubliclyListed: boolean): CoveyTownController | undefined {
+    const newTown = CoveyTownController.fromSnapshot(snapshot, isPubliclyListed);
+    if (newTown) {
+      this.addTown(newTown);
+    }
+    return newTown;
+  }
+
+  /**
+   * @returns the names of every town template, in the order that they were saved
+   */
+  getTemplateNames(): string[] {
+    return this._templates.map(template => template.name);
+  }
+
+  /**
+   * Fetch the snapshot of a town template based on its name
+   * @param templateName 
+   * @returns the snapshot, or undefined if there is no such template
+   */
+  getTemplate(templateName: string): TownSnapshot | undefined {
+    return this._templates.find(template => template.name === templateName)?.snapshot;
+  }
+
+  /**
+   * Saves a snapshot of an existing town's configuration as a new template. Validates that the
+   * provided password is valid
+   * @param templateName name of the new template, which must not already be in use
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @returns true upon success, or false if the name is empty or already in use, or the password
+   *  is invalid
+   */
+  saveTemplate(templateName: string, coveyTownID: string, coveyTownPassword: string): boolean {
+    if (typeof templateName !== 'string' || templateName.length === 0
+      || this.getTemplate(templateName) !== undefined) {
+      return false;
+    }
+    const snapshot = this.exportTown(coveyTownID, coveyTownPassword);
+    if (!snapshot) {
+      return false;
+    }
+    this._templates.push({ name: templateName, snapshot });
+    this._storage.saveTemplates(this._templates);
+    return true;
+  }
+
+  /**
+   * Produces a snapshot of an existing town's configuration. Validates that the provided password
+   * is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @returns the snapshot, or undefined if the password is invalid
+   */
+  exportTown(coveyTownID: string, coveyTownPassword: string): TownSnapshot | undefined {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)) {
+      return existingTown.toSnapshot();
+    }
+    return undefined;
+  }
+
   /**
    * Updates an existing town. Validates that the provided password is valid
    * @param coveyTownID 
    * @param coveyTownPassword 
    * @param friendlyName 
    * @param makePublic 
+   * @param settings settings of the town to change, if any
+   * @param joinPassword new password that players must provide to join the town, or an empty
+   *  string to let anyone who knows the town's ID join it
    * @returns true upon success, or false otherwise
    */
-  updateTown(coveyTownID: string, coveyTownPassword: string, friendlyName?: string, makePublic?: boolean): boolean {
+  updateTown(coveyTownID: string, coveyTownPassword: string, friendlyName?: string, makePublic?: boolean,
+    settings?: TownSettingsUpdate, joinPassword?: string): boolean {
     const existingTown = this.getControllerForTown(coveyTownID);
     if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)) {
+      if (friendlyName !== undefined && friendlyName.length === 0) {
+        return false;
+      }
+      if (settings !== undefined && !existingTown.updateSettings(settings)) {
+        return false;
+      }
       if (friendlyName !== undefined) {
-        if (friendlyName.length === 0) {
-          return false;
-        }
         existingTown.friendlyName = friendlyName;
       }
       if (makePublic !== undefined) {
         existingTown.isPubliclyListed = makePublic;
       }
+      if (joinPassword !== undefined) {
+        existingTown.joinPassword = joinPassword || undefined;
+      }
+      const changes = [
+        friendlyName !== undefined ? `friendlyName to ${friendlyName}` : undefined,
+        makePublic !== undefined ? `isPubliclyListed to ${makePublic}` : undefined,
+        settings !== undefined ? `settings to ${JSON.stringify(settings)}` : undefined,
+        joinPassword !== undefined ? 'joinPassword' : undefined,
+      ].filter(change => change !== undefined);
+      this.recordAuditEvent(coveyTownID, 'townUpdated', undefined, `Changed ${changes.join(', ')}`);
+      this.persistTowns();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Replaces the map of an existing town. Validates that the provided password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @param map the new map
+   * @returns true upon success, or false if the password is invalid or an existing conversation
+   *  area in the town overlaps a wall on the new map
+   */
+  updateTownMap(coveyTownID: string, coveyTownPassword: string, map: TownMap): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)
+      && existingTown.setMap(map)) {
+      this.recordAuditEvent(coveyTownID, 'mapUpdated');
+      this.persistTowns();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Removes a player from an existing town. Validates that the provided password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @param playerID ID of the player to remove
+   * @returns true upon success, or false if the password is invalid or there is no such player
+   */
+  kickPlayer(coveyTownID: string, coveyTownPassword: string, playerID: string): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)
+      && existingTown.kickPlayer(playerID)) {
+      this.recordAuditEvent(coveyTownID, 'playerKicked', undefined, playerID);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Removes a player from an existing town, and bans their username and IP address from joining
+   * it again. Validates that the provided password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @param playerID ID of the player to ban
+   * @returns true upon success, or false if the password is invalid or there is no such player
+   */
+  banPlayer(coveyTownID: string, coveyTownPassword: string, playerID: string): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)
+      && existingTown.banPlayer(playerID)) {
+      this.recordAuditEvent(coveyTownID, 'playerBanned', undefined, playerID);
+      this.persistTowns();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Creates a new invite to an existing town. Validates that the provided password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @param expiresAt time after which the invite may no longer be used, in ms since the epoch
+   * @param maxUses number of times that the invite may be used
+   * @param role role that players who join with the invite are given
+   * @returns the new invite, or undefined if the password or any of the options are invalid
+   */
+  createInvite(coveyTownID: string, coveyTownPassword: string, expiresAt?: number, maxUses?: number,
+    role?: TownRole): TownInvite | undefined {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)) {
+      const invite = existingTown.createInvite(expiresAt, maxUses, role);
+      if (invite) {
+        this.recordAuditEvent(coveyTownID, 'inviteCreated', undefined, `Invite with the ${invite.role} role`);
+        this.persistTowns();
+      }
+      return invite;
+    }
+    return undefined;
+  }
+
+  /**
+   * Lists the invites to an existing town that may still be used. Validates that the provided
+   * password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @returns the invites, or undefined if the password is invalid
+   */
+  listInvites(coveyTownID: string, coveyTownPassword: string): TownInvite[] | undefined {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)) {
+      return existingTown.getInvites();
+    }
+    return undefined;
+  }
+
+  /**
+   * Revokes an invite to an existing town. Validates that the provided password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @param inviteToken 
+   * @returns true upon success, or false if the password is invalid or there is no such invite
+   */
+  revokeInvite(coveyTownID: string, coveyTownPassword: string, inviteToken: string): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)
+      && existingTown.revokeInvite(inviteToken)) {
+      this.recordAuditEvent(coveyTownID, 'inviteRevoked');
+      this.persistTowns();
       return true;
     }
     return false;
   }
 
+  /**
+   * Starts recording the events of an existing town. Validates that the provided password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @returns true upon success, or false if the password is invalid or the town is already being
+   *  recorded
+   */
+  startRecording(coveyTownID: string, coveyTownPassword: string): boolean {
+    const existingTown = this.getControllerForTown(coveyTownID);
+    if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)
+      && !this._recorders.find(recorder => recorder.coveyTownID === coveyTownID)) {
+      this._recorders.push(new TownRecorder(existingTown));
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Stops recording the events of an existing town. Validates that the provided password is valid
+   * @param coveyTownID 
+   * @param coveyTownPassword 
+   * @returns the recording, or undefined if the password is invalid or the town is not being
+   *  recorded
+   */
+  stopRecording(coveyTownID: string, coveyTownPassword: string): TownRecording | undefined {
+    const recorder = this._recorders.find(r => r.coveyTownID === coveyTownID);
+    if (recorder && this.isValidTownPassword(coveyTownID, coveyTownPassword)) {
+      this._recorders = this._recorders.filter(r => r !== recorder);
+      return recorder.stop();
+    }
+    return undefined;
+  }
+
+  /**
+   * Creates a new read-only replay town, registering it in the Town Store, and starts replaying
+   * a recording into it
+   * @param recording 
+   * @param isPubliclyListed 
+   * @param speed how many times faster than the original pace to replay the recording
+   * @returns the new town controller, or undefined if the recording, its map or the speed is
+   *  not valid
+   */
+  createReplayTown(recording: TownRecording, isPubliclyListed: boolean, speed = 1): CoveyTownController | undefined {
+    if (!TownReplayer.isValidRecording(recording) || !Number.isFinite(speed) || speed <= 0) {
+      return undefined;
+    }
+    const map = recording.map !== undefined ? TownMap.fromTiled(recording.map) : undefined;
+    if (recording.map !== undefined && !map) {
+      return undefined;
+    }
+    const replayTown = new CoveyTownController(`Replay of ${recording.friendlyName}`, isPubliclyListed);
+    if (map) {
+      replayTown.setMap(map);
+    }
+    replayTown.isReadOnly = true;
+    this.addTown(replayTown);
+    const replayer = new TownReplayer(replayTown, recording, speed);
+    this._replayers.push(replayer);
+    replayer.start();
+    return replayTown;
+  }
+
+  /**
+   * Checks every town for players who have been idle for too long, marking them as away or
+   * removing them from their town. This should be called periodically.
+   */
+  checkIdleSessions(): void {
+    const now = Date.now();
+    this._towns.forEach(town => town.checkIdleSessions(now));
+  }
+
   /**
    * Deletes a given town from this towns store, destroying the town controller in the process.
    * Checks that the password is valid before deletion
@@ -98,6 +582,16 @@ export default class CoveyTownsStore {
     const existingTown = this.getControllerForTown(coveyTownID);
     if (existingTown && passwordMatches(coveyTownPassword, existingTown.townUpdatePassword)) {
       this._towns = this._towns.filter(town => town !== existingTown);
+      this._recorders.filter(recorder => recorder.coveyTownID === coveyTownID).forEach(recorder => recorder.stop());
+      this._recorders = this._recorders.filter(recorder => recorder.coveyTownID !== coveyTownID);
+      this._replayers.filter(replayer => replayer.coveyTownID === coveyTownID).forEach(replayer => replayer.stop());
+      this._replayers = this._replayers.filter(replayer => replayer.coveyTownID !== coveyTownID);
+      this.recordAuditEvent(coveyTownID, 'townDeleted', undefined, existingTown.friendlyName);
+      // Forget the deleted towns whose events have all been evicted from the audit log
+      this._deletedTowns = this._deletedTowns
+        .filter(town => this._auditLog.getEvents(town.coveyTownID).length > 0)
+        .concat([{ coveyTownID, townUpdatePassword: existingTown.townUpdatePassword }]);
+      this.persistTowns();
       existingTown.disconnectAllPlayers();
       return true;
     }
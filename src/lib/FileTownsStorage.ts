@@ -0,0 +1,62 @@
+import fs from 'fs';
+import ICoveyTownsStorage, { CoveyTownRecord } from './ICoveyTownsStorage';
+import { TownTemplate } from '../types/TownSnapshot';
+
+/** The format of the JSON file that every town and template is saved to */
+type TownsFileContents = { towns: CoveyTownRecord[]; templates: TownTemplate[] };
+
+/**
+ * A storage backend that saves every town (and town template) to a single JSON file on disk, so
+ * that they survive a restart of the server.
+ */
+export default class FileTownsStorage implements ICoveyTownsStorage {
+  private readonly _filePath: string;
+
+  /**
+   * @param filePath location of the JSON file to read towns from and write towns to. The file is
+   *  created the first time that towns are saved.
+   */
+  constructor(filePath: string) {
+    this._filePath = filePath;
+  }
+
+  get filePath(): string {
+    return this._filePath;
+  }
+
+  loadTowns(): CoveyTownRecord[] {
+    return this.readContents().towns;
+  }
+
+  saveTowns(towns: CoveyTownRecord[]): void {
+    this.writeContents({ ...this.readContents(), towns });
+  }
+
+  loadTemplates(): TownTemplate[] {
+    return this.readContents().templates;
+  }
+
+  saveTemplates(templates: TownTemplate[]): void {
+    this.writeContents({ ...this.readContents(), templates });
+  }
+
+  private readContents(): TownsFileContents {
+    if (!fs.existsSync(this._filePath)) {
+      return { towns: [], templates: [] };
+    }
+    const contents = JSON.parse(fs.readFileSync(this._filePath, 'utf-8'));
+    // Files that were saved before templates were supported do not have any templates
+    const templates = contents.templates ?? [];
+    if (!Array.isArray(contents.towns) || !Array.isArray(templates)) {
+      throw new Error(`Town storage file ${this._filePath} is malformed`);
+    }
+    return { towns: contents.towns, templates };
+  }
+
+  private writeContents(contents: TownsFileContents): void {
+    // Write to a temporary file first, so that a crash mid-write can not corrupt the saved towns
+    const tempPath = `${this._filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(contents, null, 2));
+    fs.renameSync(tempPath, this._filePath);
+  }
+}
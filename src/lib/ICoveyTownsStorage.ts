@@ -0,0 +1,61 @@
+import { ServerConversationArea } from '../client/TownsServiceClient';
+import { TiledMap } from '../types/TiledMap';
+import { TownInvite, TownSettings } from '../CoveyTypes';
+import { TownTemplate } from '../types/TownSnapshot';
+
+/**
+ * The durable representation of a town: everything that is needed to re-create its
+ * CoveyTownController after the server restarts. Players, sessions and conversation area
+ * occupants are transient and are never stored.
+ */
+export type CoveyTownRecord = {
+  coveyTownID: string;
+  friendlyName: string;
+  isPubliclyListed: boolean;
+  townUpdatePassword: string;
+  conversationAreas: ServerConversationArea[];
+  map?: TiledMap;
+  /** Missing from towns that were saved before they had settings, which use the defaults */
+  settings?: TownSettings;
+  /** Password that players must provide to join the town, if it has one */
+  joinPassword?: string;
+  /** Invites to the town that have not been revoked */
+  invites?: TownInvite[];
+  /** Usernames (in lower case) that have been banned from the town */
+  bannedUserNames?: string[];
+  /** IP addresses that have been banned from the town */
+  bannedAddresses?: string[];
+};
+
+/**
+ * An abstraction for a backend that the CoveyTownsStore uses to persist its towns
+ */
+export default interface ICoveyTownsStorage {
+  /**
+   * Load every town that was previously saved to this backend
+   *
+   * @returns the saved towns, or an empty list if nothing has been saved yet
+   */
+  loadTowns(): CoveyTownRecord[];
+
+  /**
+   * Replace the saved towns with the provided list
+   *
+   * @param towns every town that currently exists
+   */
+  saveTowns(towns: CoveyTownRecord[]): void;
+
+  /**
+   * Load every town template that was previously saved to this backend
+   *
+   * @returns the saved templates, or an empty list if none have been saved yet
+   */
+  loadTemplates(): TownTemplate[];
+
+  /**
+   * Replace the saved town templates with the provided list
+   *
+   * @param templates every template that currently exists
+   */
+  saveTemplates(templates: TownTemplate[]): void;
+}
@@ -0,0 +1,28 @@
+import ICoveyTownsStorage, { CoveyTownRecord } from './ICoveyTownsStorage';
+import { TownTemplate } from '../types/TownSnapshot';
+
+/**
+ * A storage backend that only keeps towns for the lifetime of the process. This is the default
+ * backend, used when no persistent storage is configured.
+ */
+export default class InMemoryTownsStorage implements ICoveyTownsStorage {
+  private _towns: CoveyTownRecord[] = [];
+
+  private _templates: TownTemplate[] = [];
+
+  loadTowns(): CoveyTownRecord[] {
+    return this._towns;
+  }
+
+  saveTowns(towns: CoveyTownRecord[]): void {
+    this._towns = towns;
+  }
+
+  loadTemplates(): TownTemplate[] {
+    return this._templates;
+  }
+
+  saveTemplates(templates: TownTemplate[]): void {
+    this._templates = templates;
+  }
+}
@@ -0,0 +1,48 @@
+import Counter from './metrics/Counter';
+import Gauge from './metrics/Gauge';
+import Histogram from './metrics/Histogram';
+
+describe('Metrics', () => {
+  it('renders counters with a value for each combination of labels', () => {
+    const counter = new Counter('test_events_total', 'Number of test events');
+    counter.inc({ result: 'accepted' });
+    counter.inc({ result: 'accepted' }, 2);
+    counter.inc({ result: 'rejected "quoted"' });
+    expect(counter.render()).toEqual([
+      '# HELP test_events_total Number of test events',
+      '# TYPE test_events_total counter',
+      'test_events_total{result="accepted"} 3',
+      'test_events_total{result="rejected \\"quoted\\""} 1',
+    ]);
+  });
+  it('lets gauges go up and down, be set, and be reset', () => {
+    const gauge = new Gauge('test_connections', 'Number of test connections');
+    gauge.inc();
+    gauge.inc();
+    gauge.dec();
+    expect(gauge.get()).toEqual(1);
+    gauge.set({ town_id: 'a' }, 5);
+    gauge.set({ town_id: 'a' }, 3);
+    expect(gauge.get({ town_id: 'a' })).toEqual(3);
+    gauge.reset();
+    expect(gauge.render()).toEqual([
+      '# HELP test_connections Number of test connections',
+      '# TYPE test_connections gauge',
+    ]);
+  });
+  it('counts histogram observations in cumulative buckets', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Duration of tests', [1, 0.1]);
+    histogram.observe({ route: '/towns' }, 0.05);
+    histogram.observe({ route: '/towns' }, 0.5);
+    histogram.observe({ route: '/towns' }, 2);
+    expect(histogram.render()).toEqual([
+      '# HELP test_duration_seconds Duration of tests',
+      '# TYPE test_duration_seconds histogram',
+      'test_duration_seconds_bucket{route="/towns",le="0.1"} 1',
+      'test_duration_seconds_bucket{route="/towns",le="1"} 2',
+      'test_duration_seconds_bucket{route="/towns",le="+Inf"} 3',
+      'test_duration_seconds_sum{route="/towns"} 2.55',
+      'test_duration_seconds_count{route="/towns"} 3',
+    ]);
+  });
+});
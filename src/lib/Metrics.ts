@@ -0,0 +1,47 @@
+import Counter from './metrics/Counter';
+import Gauge from './metrics/Gauge';
+import Histogram from './metrics/Histogram';
+
+/**
+ * The operational metrics of the town service, which are exposed in the Prometheus text format
+ * at /metrics.
+ *
+ * There is only a single instance of Metrics - it follows the singleton pattern. Metrics that
+ * describe the current state of the towns (rather than counting events) are re-computed from the
+ * CoveyTownsStore whenever the metrics are requested.
+ */
+export default class Metrics {
+  private static _instance: Metrics;
+
+  readonly towns = new Gauge('covey_towns', 'Number of towns, by whether they are publicly listed');
+
+  readonly townPlayers = new Gauge('covey_town_players', 'Number of players in each town');
+
+  readonly townConversationAreas = new Gauge('covey_town_conversation_areas', 'Number of conversation areas in each town');
+
+  readonly socketConnections = new Gauge('covey_socket_connections', 'Number of connected sockets');
+
+  readonly playerMovements = new Counter('covey_player_movements_total', 'Number of movement events received from players, by whether they were accepted');
+
+  readonly httpRequestDuration = new Histogram('covey_http_request_duration_seconds', 'Latency of REST requests, by method, route and status code');
+
+  readonly videoTokenFailures = new Counter('covey_video_token_failures_total', 'Number of times that the video client failed to issue a token');
+
+  static getInstance(): Metrics {
+    if (Metrics._instance === undefined) {
+      Metrics._instance = new Metrics();
+    }
+    return Metrics._instance;
+  }
+
+  /**
+   * @returns every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    const metrics = [
+      this.towns, this.townPlayers, this.townConversationAreas, this.socketConnections,
+      this.playerMovements, this.httpRequestDuration, this.videoTokenFailures,
+    ];
+    return ([] as string[]).concat(...metrics.map(metric => metric.render())).join('\n').concat('\n');
+  }
+}
@@ -0,0 +1,35 @@
+import RateLimiter from './RateLimiter';
+import TokenBucket from './TokenBucket';
+
+describe('TokenBucket', () => {
+  it('allows a burst of up to its capacity, and then refills at its rate', () => {
+    const bucket = new TokenBucket(2, 4, 0);
+    expect(bucket.tryRemoveToken(0)).toBe(true);
+    expect(bucket.tryRemoveToken(0)).toBe(true);
+    expect(bucket.tryRemoveToken(0)).toBe(false);
+    expect(bucket.timeUntilToken(0)).toEqual(250);
+    expect(bucket.tryRemoveToken(249)).toBe(false);
+    expect(bucket.tryRemoveToken(250)).toBe(true);
+    expect(bucket.isFull(10000)).toBe(true);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('limits each key separately', () => {
+    const limiter = new RateLimiter(1, 1);
+    expect(limiter.consume('a', 0)).toEqual(0);
+    expect(limiter.consume('a', 0)).toEqual(1000);
+    expect(limiter.consume('b', 0)).toEqual(0);
+    expect(limiter.consume('a', 500)).toEqual(500);
+    expect(limiter.consume('a', 1000)).toEqual(0);
+  });
+
+  it('periodically forgets the keys whose buckets have refilled', () => {
+    const limiter = new RateLimiter(1, 1, 0);
+    limiter.consume('a', 0);
+    limiter.consume('b', 59500);
+    expect(limiter.size).toEqual(2);
+    limiter.consume('c', 60000);
+    expect(limiter.size).toEqual(2);
+  });
+});
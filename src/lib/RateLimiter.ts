@@ -0,0 +1,71 @@
+import TokenBucket from './TokenBucket';
+
+/** How often (in ms) buckets that have refilled completely are forgotten */
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Rate limits actions separately for each key (such as a client's IP address, or a session token),
+ * using a token bucket for each key
+ */
+export default class RateLimiter {
+  private readonly _burst: number;
+
+  private readonly _ratePerSecond: number;
+
+  private _buckets = new Map<string, TokenBucket>();
+
+  /** The time (in ms since the epoch) that full buckets were last forgotten * */
+  private _lastPruneTime: number;
+
+  /**
+   * @param burst number of actions that may be taken at once, for each key
+   * @param ratePerSecond long-term number of actions that may be taken per second, for each key
+   * @param now the current time, in ms since the epoch
+   */
+  constructor(burst: number, ratePerSecond: number, now = Date.now()) {
+    this._burst = burst;
+    this._ratePerSecond = ratePerSecond;
+    this._lastPruneTime = now;
+  }
+
+  /**
+   * The number of keys that this limiter is currently tracking a bucket for
+   */
+  get size(): number {
+    return this._buckets.size;
+  }
+
+  /**
+   * Attempts to take an action on behalf of a key
+   * @param key 
+   * @param now the current time, in ms since the epoch
+   * @returns 0 if the action may go ahead, or otherwise the time (in ms) until the key may take
+   *  another action
+   */
+  consume(key: string, now = Date.now()): number {
+    if (now - this._lastPruneTime >= PRUNE_INTERVAL_MS) {
+      this.prune(now);
+    }
+    let bucket = this._buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this._burst, this._ratePerSecond, now);
+      this._buckets.set(key, bucket);
+    }
+    if (bucket.tryRemoveToken(now)) {
+      return 0;
+    }
+    return bucket.timeUntilToken(now);
+  }
+
+  /**
+   * Forgets the buckets that have refilled completely, since they are no different from new ones
+   */
+  private prune(now: number): void {
+    this._buckets.forEach((bucket, key) => {
+      if (bucket.isFull(now)) {
+        this._buckets.delete(key);
+      }
+    });
+    this._lastPruneTime = now;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * A token bucket: holds up to `capacity` tokens, and is refilled at a steady rate. Each action
+ * that is rate limited removes a token, so that bursts of up to `capacity` actions are allowed,
+ * but the long-term rate of actions can not exceed the refill rate.
+ */
+export default class TokenBucket {
+  private readonly _capacity: number;
+
+  /** Tokens added to the bucket per second * */
+  private readonly _refillRate: number;
+
+  private _tokens: number;
+
+  /** The time (in ms since the epoch) that the tokens were last refilled * */
+  private _lastRefillTime: number;
+
+  /**
+   * Creates a full token bucket
+   * @param capacity maximum number of tokens that the bucket holds
+   * @param refillRate number of tokens added to the bucket per second
+   * @param now the current time, in ms since the epoch
+   */
+  constructor(capacity: number, refillRate: number, now = Date.now()) {
+    this._capacity = capacity;
+    this._refillRate = refillRate;
+    this._tokens = capacity;
+    this._lastRefillTime = now;
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = Math.max(now - this._lastRefillTime, 0) / 1000;
+    this._tokens = Math.min(this._capacity, this._tokens + elapsedSeconds * this._refillRate);
+    this._lastRefillTime = now;
+  }
+
+  /**
+   * Removes a token from the bucket, if there is one
+   * @param now the current time, in ms since the epoch
+   * @returns true if a token was removed (and the action may go ahead), or false if the bucket is empty
+   */
+  tryRemoveToken(now = Date.now()): boolean {
+    this.refill(now);
+    if (this._tokens < 1) {
+      return false;
+    }
+    this._tokens -= 1;
+    return true;
+  }
+
+  /**
+   * @param now the current time, in ms since the epoch
+   * @returns the time (in ms) until the bucket will have a token, or 0 if it has one now
+   */
+  timeUntilToken(now = Date.now()): number {
+    this.refill(now);
+    return this._tokens >= 1 ? 0 : Math.ceil(((1 - this._tokens) / this._refillRate) * 1000);
+  }
+
+  /**
+   * @param now the current time, in ms since the epoch
+   * @returns true if the bucket has been refilled to its capacity
+   */
+  isFull(now = Date.now()): boolean {
+    this.refill(now);
+    return this._tokens >= this._capacity;
+  }
+}
@@ -0,0 +1,82 @@
+import TownMap from './TownMap';
+import { createTiledMapForTesting } from '../client/TestUtils';
+import { TiledMap, TiledObject } from '../types/TiledMap';
+
+describe('TownMap', () => {
+  describe('fromTiled', () => {
+    it('rejects maps with missing or invalid dimensions', () => {
+      expect(TownMap.fromTiled({ ...createTiledMapForTesting(), width: 0 })).toBeUndefined();
+      expect(TownMap.fromTiled({ ...createTiledMapForTesting(), tilewidth: 1.5 })).toBeUndefined();
+      expect(TownMap.fromTiled({ ...createTiledMapForTesting(), layers: undefined } as unknown as TiledMap))
+        .toBeUndefined();
+    });
+    it('rejects maps with too many tiles, even if they have no tile data', () => {
+      const definition = { ...createTiledMapForTesting(), width: 50000, height: 50000 };
+      definition.layers = definition.layers.filter(layer => layer.data === undefined);
+      expect(TownMap.fromTiled(definition)).toBeUndefined();
+    });
+    it('rejects maps with spawn points that are not at finite coordinates', () => {
+      const definition = createTiledMapForTesting();
+      definition.layers[definition.layers.length - 1].objects = [{ name: 'Spawn Point', x: Infinity, y: 0 }];
+      expect(TownMap.fromTiled(definition)).toBeUndefined();
+      definition.layers[definition.layers.length - 1].objects = [{ name: 'Spawn Point', y: 0 } as unknown as TiledObject];
+      expect(TownMap.fromTiled(definition)).toBeUndefined();
+    });
+    it('rejects maps with tile layers that do not match the size of the map', () => {
+      const definition = createTiledMapForTesting();
+      definition.layers[0].data = [1, 1, 1];
+      expect(TownMap.fromTiled(definition)).toBeUndefined();
+    });
+    it('rejects maps with malformed layers or tilesets', () => {
+      const withLayers = (layers: unknown[]) => ({ ...createTiledMapForTesting(), layers } as unknown as TiledMap);
+      expect(TownMap.fromTiled(withLayers([null]))).toBeUndefined();
+      expect(TownMap.fromTiled(withLayers([{ type: 'group', name: 'group', layers: [null] }]))).toBeUndefined();
+      expect(TownMap.fromTiled(withLayers([{ type: 'objectgroup', name: 'objects', objects: {} }]))).toBeUndefined();
+      expect(TownMap.fromTiled(withLayers([{ type: 'tilelayer', name: 'walls', properties: {} }]))).toBeUndefined();
+      const withTilesets = (tilesets: unknown[]) => ({ ...createTiledMapForTesting(), tilesets } as unknown as TiledMap);
+      expect(TownMap.fromTiled(withTilesets([null]))).toBeUndefined();
+      expect(TownMap.fromTiled(withTilesets([{ firstgid: 1, tiles: [null] }]))).toBeUndefined();
+      expect(TownMap.fromTiled(withTilesets([{ tiles: [] }]))).toBeUndefined();
+    });
+    it('computes the bounds of the map in pixels', () => {
+      expect(TownMap.fromTiled(createTiledMapForTesting())?.bounds).toEqual({ width: 320, height: 320 });
+    });
+    it('finds spawn points in object layers', () => {
+      expect(TownMap.fromTiled(createTiledMapForTesting())?.spawnPoints).toEqual([{ x: 64, y: 64 }]);
+    });
+  });
+  describe('isSolidAt', () => {
+    it('treats tiles in layers with the collides property as solid', () => {
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      expect(map?.isSolidAt(10, 100)).toBe(true);
+      expect(map?.isSolidAt(100, 100)).toBe(false);
+    });
+    it('treats tiles with the collides property in their tileset as solid', () => {
+      const definition = createTiledMapForTesting();
+      definition.layers[1].properties = [];
+      definition.tilesets = [
+        { firstgid: 1 },
+        { firstgid: 2, tiles: [{ id: 0, properties: [{ name: 'collides', value: true }] }] },
+      ];
+      definition.layers[0].data = definition.layers[0].data?.map((tile, index) => (index === 55 ? 2 : tile));
+      const map = TownMap.fromTiled(definition);
+      expect(map?.isSolidAt(10, 100)).toBe(false);
+      expect(map?.isSolidAt(5 * 32 + 1, 5 * 32 + 1)).toBe(true);
+    });
+    it('treats points outside of the map as solid', () => {
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      expect(map?.isSolidAt(-1, 100)).toBe(true);
+      expect(map?.isSolidAt(100, 320)).toBe(true);
+    });
+  });
+  describe('overlapsSolidTile', () => {
+    it('detects boxes that overlap a wall', () => {
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      expect(map?.overlapsSolidTile({ x: 40, y: 100, width: 20, height: 20 })).toBe(true);
+    });
+    it('allows boxes that only share an edge with a wall', () => {
+      const map = TownMap.fromTiled(createTiledMapForTesting());
+      expect(map?.overlapsSolidTile({ x: 52, y: 100, width: 40, height: 20 })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { BoundingBox } from '../client/TownsServiceClient';
+import { TownBounds } from '../CoveyTypes';
+import {
+  TiledLayer, TiledMap, TiledObject, TiledProperty, TiledTileset,
+} from '../types/TiledMap';
+
+/** Tiled stores flip/rotation flags in the high bits of each tile's global ID */
+const TILE_GID_MASK = 0x1fffffff;
+
+/** Name (or type) of the objects in a Tiled map that mark where players may spawn */
+const SPAWN_POINT_NAME = 'Spawn Point';
+
+/**
+ * Largest number of tiles (width * height) that a map may have. A map without tile data is only a
+ * few bytes, no matter its dimensions, but the server still tracks whether each of its tiles is solid.
+ */
+const MAX_MAP_TILES = 4 * 1024 * 1024;
+
+function hasCollidesProperty(properties?: TiledProperty[]): boolean {
+  return properties?.find(property => property.name === 'collides')?.value === true;
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null;
+}
+
+function isOptionalArrayOf(value: unknown, isValidItem: (item: unknown) => boolean): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(isValidItem));
+}
+
+function isValidProperties(properties: unknown): boolean {
+  return isOptionalArrayOf(properties, isObject);
+}
+
+/**
+ * Checks the parts of a Tiled layer (and of any layers nested in it) that are read when building
+ * a town map
+ */
+function isValidLayer(layer: unknown): boolean {
+  if (!isObject(layer)) {
+    return false;
+  }
+  const { data, objects, layers, properties } = layer as TiledLayer;
+  return isOptionalArrayOf(data, tile => typeof tile === 'number')
+    && isOptionalArrayOf(objects, object => isObject(object) && isValidProperties((object as TiledObject).properties))
+    && isOptionalArrayOf(layers, isValidLayer)
+    && isValidProperties(properties);
+}
+
+/**
+ * Checks the parts of a Tiled tileset that are read when building a town map
+ */
+function isValidTileset(tileset: unknown): boolean {
+  if (!isObject(tileset)) {
+    return false;
+  }
+  const { firstgid, tiles } = tileset as TiledTileset;
+  return Number.isInteger(firstgid) && isOptionalArrayOf(tiles, tile => isObject(tile)
+    && Number.isInteger((tile as { id: number }).id)
+    && isValidProperties((tile as { properties?: TiledProperty[] }).properties));
+}
+
+/**
+ * Flattens any group layers of a Tiled map, so that every tile and object layer can be
+ * processed in a single pass
+ */
+function flattenLayers(layers: TiledLayer[]): TiledLayer[] {
+  return layers.reduce<TiledLayer[]>((flattened, layer) => (layer.layers
+    ? flattened.concat(flattenLayers(layer.layers))
+    : flattened.concat([layer])), []);
+}
+
+/**
+ * The server-side representation of the world that a town takes place in, built from a map
+ * designed in Tiled. Tracks which tiles are solid (walls), and where players may spawn.
+ *
+ * A tile is solid if it belongs to a tile layer that has the custom property `collides` set to
+ * true, or if its tileset gives that tile the custom property `collides` set to true. Spawn
+ * points are the objects (in any object layer) named or typed "Spawn Point".
+ */
+export default class TownMap {
+  /** The Tiled map that this town map was built from * */
+  private readonly _definition: TiledMap;
+
+  /** Whether each tile is solid, in row-major order * */
+  private readonly _solidTiles: boolean[];
+
+  private readonly _spawnPoints: { x: number; y: number }[];
+
+  private constructor(definition: TiledMap, solidTiles: boolean[], spawnPoints: { x: number; y: number }[]) {
+    this._definition = definition;
+    this._solidTiles = solidTiles;
+    this._spawnPoints = spawnPoints;
+  }
+
+  get definition(): TiledMap {
+    return this._definition;
+  }
+
+  get spawnPoints(): { x: number; y: number }[] {
+    return this._spawnPoints;
+  }
+
+  /**
+   * The size of this map in pixels
+   */
+  get bounds(): TownBounds {
+    return {
+      width: this._definition.width * this._definition.tilewidth,
+      height: this._definition.height * this._definition.tileheight,
+    };
+  }
+
+  /**
+   * Builds a town map from a Tiled JSON map
+   *
+   * @param definition the Tiled map, as uploaded by a client
+   * @returns the town map, or undefined if the definition is not a valid, finite Tiled map (including
+   *  any of its layers or tilesets being malformed), or has more than MAX_MAP_TILES tiles
+   */
+  static fromTiled(definition: TiledMap): TownMap | undefined {
+    if (!isObject(definition)
+      || !isPositiveInteger(definition.width) || !isPositiveInteger(definition.height)
+      || !isPositiveInteger(definition.tilewidth) || !isPositiveInteger(definition.tileheight)
+      || !Array.isArray(definition.layers) || !definition.layers.every(isValidLayer)
+      || !Array.isArray(definition.tilesets) || !definition.tilesets.every(isValidTileset)) {
+      return undefined;
+    }
+    const tileCount = definition.width * definition.height;
+    if (tileCount > MAX_MAP_TILES) {
+      return undefined;
+    }
+    const layers = flattenLayers(definition.layers);
+    if (layers.some(layer => layer.data !== undefined
+      && (!Array.isArray(layer.data) || layer.data.length !== tileCount))) {
+      return undefined;
+    }
+
+    const solidGIDs = new Set<number>();
+    definition.tilesets.forEach(tileset => {
+      tileset.tiles?.filter(tile => hasCollidesProperty(tile.properties))
+        .forEach(tile => solidGIDs.add(tileset.firstgid + tile.id));
+    });
+    const solidTiles: boolean[] = new Array(tileCount).fill(false);
+    layers.forEach(layer => {
+      const layerCollides = hasCollidesProperty(layer.properties);
+      layer.data?.forEach((tile, index) => {
+        // eslint-disable-next-line no-bitwise
+        const gid = tile & TILE_GID_MASK;
+        if (gid !== 0 && (layerCollides || solidGIDs.has(gid))) {
+          solidTiles[index] = true;
+        }
+      });
+    });
+
+    const spawnPoints: { x: number; y: number }[] = [];
+    layers.forEach(layer => {
+      layer.objects?.filter(object => object.name === SPAWN_POINT_NAME
+        || object.type === SPAWN_POINT_NAME || object.class === SPAWN_POINT_NAME)
+        .forEach(object => spawnPoints.push({ x: object.x, y: object.y }));
+    });
+    if (spawnPoints.some(point => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
+      return undefined;
+    }
+
+    return new TownMap(definition, solidTiles, spawnPoints);
+  }
+
+  /**
+   * Checks whether a point is inside a solid tile. Points outside of the map are considered solid.
+   *
+   * @param x
+   * @param y
+   * @returns true if the point can not be occupied by a player, otherwise false
+   */
+  isSolidAt(x: number, y: number): boolean {
+    const column = Math.floor(x / this._definition.tilewidth);
+    const row = Math.floor(y / this._definition.tileheight);
+    if (column < 0 || row < 0 || column >= this._definition.width || row >= this._definition.height) {
+      return true;
+    }
+    return this._solidTiles[row * this._definition.width + column];
+  }
+
+  /**
+   * Checks whether a bounding box overlaps any solid tile. Like CoveyTownController.boxesOverlap,
+   * a box that only shares an edge with a solid tile does not overlap it.
+   *
+   * @param box
+   * @returns true if the box overlaps at least one solid tile, otherwise false
+   */
+  overlapsSolidTile(box: BoundingBox): boolean {
+    const { tilewidth, tileheight } = this._definition;
+    const firstColumn = Math.floor((box.x - box.width / 2) / tilewidth);
+    const lastColumn = Math.ceil((box.x + box.width / 2) / tilewidth) - 1;
+    const firstRow = Math.floor((box.y - box.height / 2) / tileheight);
+    const lastRow = Math.ceil((box.y + box.height / 2) / tileheight) - 1;
+    for (let row = firstRow; row <= lastRow; row += 1) {
+      for (let column = firstColumn; column <= lastColumn; column += 1) {
+        if (this.isSolidAt(column * tilewidth, row * tileheight)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,155 @@
+import { ServerConversationArea } from '../client/TownsServiceClient';
+import CoveyTownListener from '../types/CoveyTownListener';
+import Player from '../types/Player';
+import {
+  RecordedConversationArea, RecordedPlayer, RecordedTownEvent, TownRecording,
+} from '../types/TownRecording';
+import CoveyTownController from './CoveyTownController';
+
+/** Number of events that a recording may have, when RECORDING_MAX_EVENTS is not set */
+const DEFAULT_RECORDING_MAX_EVENTS = 100000;
+
+/** Time (in ms) that a recording may run for, when RECORDING_MAX_DURATION_MS is not set */
+const DEFAULT_RECORDING_MAX_DURATION_MS = 60 * 60 * 1000;
+
+function recordPlayer(player: Player): RecordedPlayer {
+  return { id: player.id, userName: player.userName, location: { ...player.location } };
+}
+
+function recordConversationArea(conversationArea: ServerConversationArea): RecordedConversationArea {
+  return {
+    label: conversationArea.label,
+    topic: conversationArea.topic,
+    occupantsByID: [...conversationArea.occupantsByID],
+    boundingBox: { ...conversationArea.boundingBox },
+    isPinned: conversationArea.isPinned,
+  };
+}
+
+/**
+ * Records the events that a town emits (players joining, moving and disconnecting, and
+ * conversation areas being updated and destroyed), so that they can later be replayed into a
+ * replay town by a TownReplayer.
+ *
+ * A recording stops by itself once it has reached its maximum number of events or its maximum
+ * duration, so that a recording that is never stopped does not grow forever. What was recorded
+ * up to that point is kept until the recording is stopped.
+ */
+export default class TownRecorder {
+  private readonly _town: CoveyTownController;
+
+  private readonly _startedAt: number;
+
+  private _events: RecordedTownEvent[] = [];
+
+  private readonly _listener: CoveyTownListener;
+
+  private readonly _maxEvents: number;
+
+  private readonly _maxDurationMs: number;
+
+  /** Whether this recorder has stopped listening to the town's events * */
+  private _isStopped = false;
+
+  /**
+   * Starts recording a town. The players and conversation areas that are already in the town are
+   * recorded as events at the start of the recording.
+   *
+   * @param town the town to record
+   * @param now the current time, in ms since the epoch
+   * @param maxEvents number of events after which the recording stops by itself
+   * @param maxDurationMs time (in ms) after which the recording stops by itself
+   */
+  constructor(town: CoveyTownController, now = Date.now(),
+    maxEvents = Number(process.env.RECORDING_MAX_EVENTS) || DEFAULT_RECORDING_MAX_EVENTS,
+    maxDurationMs = Number(process.env.RECORDING_MAX_DURATION_MS) || DEFAULT_RECORDING_MAX_DURATION_MS) {
+    this._town = town;
+    this._startedAt = now;
+    this._maxEvents = maxEvents;
+    this._maxDurationMs = maxDurationMs;
+    town.players.forEach(player => this.record({ offset: 0, type: 'playerJoined', player: recordPlayer(player) }));
+    town.conversationAreas.forEach(conversationArea => this.record({
+      offset: 0, type: 'conversationAreaUpdated', conversationArea: recordConversationArea(conversationArea),
+    }));
+
+    const offset = () => Math.max(Date.now() - this._startedAt, 0);
+    this._listener = {
+      onPlayerJoined: newPlayer => this.record({ offset: offset(), type: 'playerJoined', player: recordPlayer(newPlayer) }),
+      onPlayerMoved: movedPlayer => this.record({ offset: offset(), type: 'playerMoved', player: recordPlayer(movedPlayer) }),
+      onPlayerDisconnected: removedPlayer => this.record({ offset: offset(), type: 'playerDisconnected', playerID: removedPlayer.id }),
+      onConversationAreaUpdated: conversationArea => this.record({
+        offset: offset(), type: 'conversationAreaUpdated', conversationArea: recordConversationArea(conversationArea),
+      }),
+      onConversationAreaDestroyed: conversationArea => this.record({
+        offset: offset(), type: 'conversationAreaDestroyed', conversationArea: recordConversationArea(conversationArea),
+      }),
+      onTownDestroyed: () => {},
+      onChatMessage: () => {},
+      onChatHistory: () => {},
+      onDirectMessage: () => {},
+      onPlayerAwayStatusChanged: () => {},
+      onPlayerProfileUpdated: () => {},
+      onPlayerKicked: () => {},
+      onServerShuttingDown: () => {},
+    };
+    if (!this._isStopped) {
+      town.addTownListener(this._listener);
+    }
+  }
+
+  get coveyTownID(): string {
+    return this._town.coveyTownID;
+  }
+
+  /**
+   * Whether this recorder has stopped recording, either because it was stopped, or because the
+   * recording reached its maximum number of events or duration
+   */
+  get isStopped(): boolean {
+    return this._isStopped;
+  }
+
+  /**
+   * The events that have been recorded so far, along with what is needed to set up a replay town
+   */
+  get recording(): TownRecording {
+    return {
+      friendlyName: this._town.friendlyName,
+      startedAt: this._startedAt,
+      map: this._town.map?.definition,
+      events: [...this._events],
+    };
+  }
+
+  /**
+   * Stops recording the town
+   * @returns everything that was recorded
+   */
+  stop(): TownRecording {
+    this.stopListening();
+    return this.recording;
+  }
+
+  /**
+   * Adds an event to the recording, unless the recording is full or has run for too long, in
+   * which case the recording stops instead
+   */
+  private record(event: RecordedTownEvent): void {
+    if (this._isStopped) {
+      return;
+    }
+    if (this._events.length >= this._maxEvents || event.offset > this._maxDurationMs) {
+      this.stopListening();
+      return;
+    }
+    this._events.push(event);
+  }
+
+  private stopListening(): void {
+    this._isStopped = true;
+    // The listener is not created yet while the town's existing state is being recorded
+    if (this._listener) {
+      this._town.removeTownListener(this._listener);
+    }
+  }
+}
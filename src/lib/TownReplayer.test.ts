@@ -0,0 +1,126 @@
+import { nanoid } from 'nanoid';
+import { mock, mockDeep, mockReset } from 'jest-mock-extended';
+import TwilioVideo from './TwilioVideo';
+import Player from '../types/Player';
+import CoveyTownController from './CoveyTownController';
+import CoveyTownListener from '../types/CoveyTownListener';
+import TownRecorder from './TownRecorder';
+import TownReplayer from './TownReplayer';
+import { TownRecording } from '../types/TownRecording';
+import { createConversationForTesting, locInConversation, nonConversationAreaLoc } from '../client/TestUtils';
+
+const mockTwilioVideo = mockDeep<TwilioVideo>();
+jest.spyOn(TwilioVideo, 'getInstance').mockReturnValue(mockTwilioVideo);
+
+describe('TownRecorder and TownReplayer', () => {
+  const replayListener = mock<CoveyTownListener>();
+  let recordedTown: CoveyTownController;
+  let replayTown: CoveyTownController;
+
+  beforeEach(() => {
+    mockReset(replayListener);
+    recordedTown = new CoveyTownController(`recorded town ${nanoid()}`, false);
+    replayTown = new CoveyTownController(`replay town ${nanoid()}`, false);
+    replayTown.isReadOnly = true;
+    replayTown.addTownListener(replayListener);
+  });
+
+  it('stops recording by itself once the recording has too many events or has run for too long', async () => {
+    const session = await recordedTown.addPlayer(new Player(nanoid()));
+    const fullRecorder = new TownRecorder(recordedTown, Date.now(), 2);
+    recordedTown.updatePlayerLocation(session.player, nonConversationAreaLoc());
+    recordedTown.updatePlayerLocation(session.player, nonConversationAreaLoc());
+    expect(fullRecorder.isStopped).toBe(true);
+    expect(fullRecorder.recording.events.map(event => event.type)).toEqual(['playerJoined', 'playerMoved']);
+
+    const startedAt = Date.now();
+    const longRecorder = new TownRecorder(recordedTown, startedAt, 100, 1000);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(startedAt + 1001);
+    try {
+      recordedTown.updatePlayerLocation(session.player, nonConversationAreaLoc());
+    } finally {
+      now.mockRestore();
+    }
+    expect(longRecorder.isStopped).toBe(true);
+    expect(longRecorder.stop().events.map(event => event.type)).toEqual(['playerJoined']);
+  });
+
+  it('records the players and conversation areas already in the town, then its events', async () => {
+    const existingSession = await recordedTown.addPlayer(new Player(nanoid()));
+    const conversationArea = createConversationForTesting();
+    recordedTown.addConversationArea(conversationArea);
+
+    const recorder = new TownRecorder(recordedTown);
+    const newSession = await recordedTown.addPlayer(new Player(nanoid()));
+    recordedTown.updatePlayerLocation(newSession.player, locInConversation(conversationArea));
+    recordedTown.updatePlayerLocation(newSession.player, nonConversationAreaLoc());
+    recordedTown.destroySession(existingSession);
+    const recording = recorder.stop();
+    await recordedTown.addPlayer(new Player(nanoid()));
+
+    expect(recording.friendlyName).toEqual(recordedTown.friendlyName);
+    expect(recording.events.map(event => event.type)).toEqual([
+      'playerJoined', 'conversationAreaUpdated',
+      'playerJoined',
+      'conversationAreaUpdated', 'playerMoved',
+      'conversationAreaDestroyed', 'playerMoved',
+      'playerDisconnected',
+    ]);
+    expect(recording.events.slice(0, 2).every(event => event.offset === 0)).toBe(true);
+    expect(TownReplayer.isValidRecording(recording)).toBe(true);
+  });
+
+  it('replays a recording into a read-only town, at the requested speed', () => {
+    jest.useFakeTimers();
+    const conversationArea = createConversationForTesting();
+    const playerID = nanoid();
+    const recording: TownRecording = {
+      friendlyName: 'recorded',
+      startedAt: 0,
+      events: [
+        { offset: 0, type: 'playerJoined', player: { id: playerID, userName: 'ann', location: nonConversationAreaLoc() } },
+        { offset: 1000, type: 'conversationAreaUpdated', conversationArea: { ...conversationArea, occupantsByID: [playerID] } },
+        { offset: 1000, type: 'playerMoved', player: { id: playerID, userName: 'ann', location: locInConversation(conversationArea) } },
+        { offset: 3000, type: 'conversationAreaDestroyed', conversationArea },
+        { offset: 3000, type: 'playerDisconnected', playerID },
+      ],
+    };
+    const replayer = new TownReplayer(replayTown, recording, 2);
+    replayer.start();
+    expect(replayTown.players.map(player => player.id)).toEqual([playerID]);
+    expect(replayListener.onPlayerJoined).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(499);
+    expect(replayListener.onPlayerMoved).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    expect(replayListener.onPlayerMoved).toHaveBeenCalledWith(replayTown.players[0]);
+    expect(replayTown.players[0].activeConversationArea?.label).toEqual(conversationArea.label);
+    expect(replayTown.conversationAreas.map(area => area.occupantsByID)).toEqual([[playerID]]);
+
+    jest.advanceTimersByTime(1000);
+    expect(replayTown.conversationAreas).toEqual([]);
+    expect(replayTown.players).toEqual([]);
+    expect(replayListener.onPlayerDisconnected).toHaveBeenCalledTimes(1);
+    expect(replayer.isFinished).toBe(true);
+    jest.useRealTimers();
+  });
+
+  it('rejects recordings with unknown or out of order events', () => {
+    const player = { id: nanoid(), userName: 'ann', location: { x: 0, y: 0, moving: false, rotation: 'front' as const } };
+    expect(TownReplayer.isValidRecording({
+      friendlyName: 'recorded', startedAt: 0, events: [{ offset: 0, type: 'chat' }],
+    } as unknown as TownRecording)).toBe(false);
+    expect(TownReplayer.isValidRecording({
+      friendlyName: 'recorded',
+      startedAt: 0,
+      events: [{ offset: 10, type: 'playerJoined', player }, { offset: 5, type: 'playerMoved', player }],
+    })).toBe(false);
+  });
+
+  it('does not let players change a read-only town', async () => {
+    const session = await replayTown.addPlayer(new Player(nanoid()));
+    expect(replayTown.addConversationArea(createConversationForTesting())).toBe(false);
+    expect(replayTown.movePlayer(session, { x: 1, y: 1, moving: false, rotation: 'front' })).toBe(false);
+    expect(replayTown.sendChatMessage(session, 'hello')).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { RecordedTownEvent, TownRecording } from '../types/TownRecording';
+import CoveyTownController from './CoveyTownController';
+
+/**
+ * Plays the events of a recording into a (read-only) replay town, at the same pace that they were
+ * recorded at, or faster. The listeners of the replay town receive the same events as the
+ * listeners of the recorded town did.
+ */
+export default class TownReplayer {
+  private readonly _town: CoveyTownController;
+
+  private readonly _recording: TownRecording;
+
+  private readonly _speed: number;
+
+  /** Index of the next event to replay * */
+  private _nextEvent = 0;
+
+  private _timer?: NodeJS.Timeout;
+
+  /**
+   * @param town the town to replay the recording into
+   * @param recording 
+   * @param speed how many times faster than the original pace to replay the recording
+   */
+  constructor(town: CoveyTownController, recording: TownRecording, speed = 1) {
+    this._town = town;
+    this._recording = recording;
+    this._speed = speed;
+  }
+
+  /**
+   * Checks that a recording (which may have been provided by a client) is well-formed: its events
+   * must be of a known type, include the details of the player or conversation area that they
+   * are about, and be in order of their offsets
+   *
+   * @param recording 
+   */
+  static isValidRecording(recording: TownRecording): boolean {
+    if (typeof recording !== 'object' || recording === null || typeof recording.friendlyName !== 'string'
+      || !Array.isArray(recording.events)) {
+      return false;
+    }
+    const isValidEvent = (event: RecordedTownEvent) => {
+      switch (event?.type) {
+        case 'playerJoined':
+        case 'playerMoved':
+          return typeof event.player?.id === 'string' && typeof event.player.userName === 'string'
+            && typeof event.player.location === 'object' && event.player.location !== null;
+        case 'playerDisconnected':
+          return typeof event.playerID === 'string';
+        case 'conversationAreaUpdated':
+        case 'conversationAreaDestroyed':
+          return typeof event.conversationArea?.label === 'string'
+            && Array.isArray(event.conversationArea.occupantsByID)
+            && typeof event.conversationArea.boundingBox === 'object' && event.conversationArea.boundingBox !== null;
+        default:
+          return false;
+      }
+    };
+    return recording.events.every((event, index) => isValidEvent(event)
+      && Number.isFinite(event.offset) && event.offset >= (index > 0 ? recording.events[index - 1].offset : 0));
+  }
+
+  get coveyTownID(): string {
+    return this._town.coveyTownID;
+  }
+
+  get isFinished(): boolean {
+    return this._nextEvent >= this._recording.events.length;
+  }
+
+  /**
+   * Starts replaying the recording. Events at the very start of the recording are replayed
+   * immediately.
+   */
+  start(): void {
+    this.replayDueEvents(0);
+  }
+
+  /**
+   * Stops replaying the recording, leaving the replay town as it is
+   */
+  stop(): void {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  /**
+   * Replays every event up to the given offset, and then waits for the next event to be due
+   * @param offset time since the start of the recording, in ms
+   */
+  private replayDueEvents(offset: number): void {
+    this._timer = undefined;
+    const { events } = this._recording;
+    while (!this.isFinished && events[this._nextEvent].offset <= offset) {
+      this._town.replayEvent(events[this._nextEvent]);
+      this._nextEvent += 1;
+    }
+    if (!this.isFinished) {
+      const nextOffset = events[this._nextEvent].offset;
+      this._timer = setTimeout(() => this.replayDueEvents(nextOffset), (nextOffset - offset) / this._speed);
+      // Don't keep the process alive just to finish a replay
+      this._timer.unref();
+    }
+  }
+}
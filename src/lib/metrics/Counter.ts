@@ -0,0 +1,12 @@
+import LabelledMetric, { MetricLabels } from './LabelledMetric';
+
+/**
+ * A value that only ever increases, such as the number of events that have happened
+ */
+export default class Counter extends LabelledMetric {
+  protected readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, amount = 1): void {
+    this.add(labels, amount);
+  }
+}
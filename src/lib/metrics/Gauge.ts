@@ -0,0 +1,28 @@
+import LabelledMetric, { MetricLabels } from './LabelledMetric';
+
+/**
+ * A value that may go up and down, such as the number of connected clients
+ */
+export default class Gauge extends LabelledMetric {
+  protected readonly type = 'gauge';
+
+  inc(labels: MetricLabels = {}): void {
+    this.add(labels, 1);
+  }
+
+  dec(labels: MetricLabels = {}): void {
+    this.add(labels, -1);
+  }
+
+  set(labels: MetricLabels, value: number): void {
+    this.add(labels, value - this.get(labels));
+  }
+
+  /**
+   * Forgets the values for every combination of labels, such as before the values are
+   * re-computed from scratch
+   */
+  reset(): void {
+    this._values = [];
+  }
+}
@@ -0,0 +1,57 @@
+import { MetricLabels, formatLabels } from './LabelledMetric';
+
+/** Upper bounds (in seconds) of the buckets of the REST request latency histogram */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Counts observations (such as request latencies) in cumulative buckets, along with their sum
+ */
+export default class Histogram {
+  readonly name: string;
+
+  readonly help: string;
+
+  private readonly _buckets: number[];
+
+  private _series: { labels: MetricLabels; bucketCounts: number[]; sum: number; count: number }[] = [];
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.name = name;
+    this.help = help;
+    this._buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = formatLabels(labels);
+    let series = this._series.find(s => formatLabels(s.labels) === key);
+    if (!series) {
+      series = {
+        labels: { ...labels }, bucketCounts: this._buckets.map(() => 0), sum: 0, count: 0,
+      };
+      this._series.push(series);
+    }
+    const { bucketCounts } = series;
+    this._buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        bucketCounts[index] += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  /**
+   * @returns the lines that describe this histogram in the Prometheus text format
+   */
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ].concat(...this._series.map(s => [
+      ...this._buckets.map((bound, index) => `${this.name}_bucket${formatLabels({ ...s.labels, le: String(bound) })} ${s.bucketCounts[index]}`),
+      `${this.name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+      `${this.name}_sum${formatLabels(s.labels)} ${s.sum}`,
+      `${this.name}_count${formatLabels(s.labels)} ${s.count}`,
+    ]));
+  }
+}
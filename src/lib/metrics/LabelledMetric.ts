@@ -0,0 +1,63 @@
+/** Values of the labels of a metric, by label name */
+export type MetricLabels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+export function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * A metric with a value for each combination of label values, such as a counter or a gauge
+ */
+export default abstract class LabelledMetric {
+  readonly name: string;
+
+  readonly help: string;
+
+  protected _values: { labels: MetricLabels; value: number }[] = [];
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /** The Prometheus type of this metric * */
+  protected abstract readonly type: string;
+
+  /**
+   * @param labels
+   * @returns the current value for the given labels, or 0 if it has never been set
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.find(labels)?.value ?? 0;
+  }
+
+  protected add(labels: MetricLabels, amount: number): void {
+    const existing = this.find(labels);
+    if (existing) {
+      existing.value += amount;
+    } else {
+      this._values.push({ labels: { ...labels }, value: amount });
+    }
+  }
+
+  private find(labels: MetricLabels): { labels: MetricLabels; value: number } | undefined {
+    const key = formatLabels(labels);
+    return this._values.find(v => formatLabels(v.labels) === key);
+  }
+
+  /**
+   * @returns the lines that describe this metric in the Prometheus text format
+   */
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this._values.map(v => `${this.name}${formatLabels(v.labels)} ${v.value}`),
+    ];
+  }
+}
@@ -1,10 +1,28 @@
 import assert from 'assert';
 import { Socket } from 'socket.io';
 import Player from '../types/Player';
-import { CoveyTownList, UserLocation } from '../CoveyTypes';
+import {
+  AuditEvent, AuditEventType, ChatMessage, CoveyTownList, PlayerProfile, PlayerRemovalReason, ResponseErrorCode, TownInvite,
+  TownRole, TownSettings, TownSettingsUpdate, UserLocation,
+} from '../CoveyTypes';
 import CoveyTownListener from '../types/CoveyTownListener';
+import PlayerSession from '../types/PlayerSession';
+import WaitlistListener from '../types/WaitlistListener';
+import CoveyTownController from '../lib/CoveyTownController';
 import CoveyTownsStore from '../lib/CoveyTownsStore';
-import { ConversationAreaCreateRequest, ServerConversationArea } from '../client/TownsServiceClient';
+import TownMap from '../lib/TownMap';
+import { AUDIT_EVENT_TYPES } from '../lib/AuditLog';
+import Metrics from '../lib/Metrics';
+import RateLimiter from '../lib/RateLimiter';
+import { TiledMap } from '../types/TiledMap';
+import { TownRecording } from '../types/TownRecording';
+import { TOWN_SNAPSHOT_VERSION, TownSnapshot } from '../types/TownSnapshot';
+import {
+  ConversationAreaCreateRequest,
+  ConversationAreaDeleteRequest,
+  ConversationAreaUpdateRequest,
+  ServerConversationArea,
+} from '../client/TownsServiceClient';
 
 /**
  * The format of a request to join a Town in Covey.Town, as dispatched by the server middleware
@@ -12,8 +30,14 @@ import { ConversationAreaCreateRequest, ServerConversationArea } from '../client
 export interface TownJoinRequest {
   /** userName of the player that would like to join * */
   userName: string;
-  /** ID of the town that the player would like to join * */
-  coveyTownID: string;
+  /** ID of the town that the player would like to join, which may be left out if an invite token is provided * */
+  coveyTownID?: string;
+  /** Token of an invite to the town, which lets the player join without its join password * */
+  inviteToken?: string;
+  /** Password of the town, only required if the town has a join password * */
+  joinPassword?: string;
+  /** IP address that the request was made from, as determined by the server * */
+  clientAddress?: string;
 }
 
 /**
@@ -21,6 +45,8 @@ export interface TownJoinRequest {
  * middleware
  */
 export interface TownJoinResponse {
+  /** ID of the town that the player joined * */
+  coveyTownID: string;
   /** Unique ID that represents this player * */
   coveyUserID: string;
   /** Secret token that this player should use to authenticate
@@ -37,6 +63,54 @@ export interface TownJoinResponse {
   isPubliclyListed: boolean;
   /** Conversation areas currently active in this town */
   conversationAreas: ServerConversationArea[];
+  /** Most recent chat messages sent in this town, oldest first */
+  chatHistory: ChatMessage[];
+  /** Settings of this town */
+  settings: TownSettings;
+  /** Role that this player has in this town */
+  role: TownRole;
+}
+
+/**
+ * Payload sent by the client to wait for a spot in a Town that is full
+ */
+export interface WaitlistJoinRequest {
+  /** userName of the player that would like to join * */
+  userName: string;
+  /** ID of the town that the player would like to join * */
+  coveyTownID: string;
+  /** Password of the town, only required if the town has a join password * */
+  joinPassword?: string;
+  /** IP address that the request was made from, as determined by the server * */
+  clientAddress?: string;
+}
+
+/**
+ * Response from the server for a waitlist join request
+ */
+export interface WaitlistJoinResponse {
+  /** Secret ticket that identifies this client's place on the waitlist * */
+  waitlistTicket: string;
+  /** Position on the waitlist, starting at 1, or 0 if the player has already been admitted * */
+  position: number;
+}
+
+/**
+ * Payload sent by the client to check on (or give up) its place on a Town's waitlist
+ */
+export interface WaitlistStatusRequest {
+  coveyTownID: string;
+  waitlistTicket: string;
+}
+
+/**
+ * Response from the server for a waitlist status request
+ */
+export interface WaitlistStatusResponse {
+  /** Position on the waitlist, starting at 1, or 0 if the player has been admitted * */
+  position: number;
+  /** Once the player has been admitted, the same response as if they had joined the town * */
+  admission?: TownJoinResponse;
 }
 
 /**
@@ -45,6 +119,18 @@ export interface TownJoinResponse {
 export interface TownCreateRequest {
   friendlyName: string;
   isPubliclyListed: boolean;
+  /** Optional Tiled map of the world that the town takes place in */
+  map?: TiledMap;
+  /** Optional settings for the town; the defaults are used for any settings that are not included */
+  settings?: Partial<TownSettings>;
+  /** Optional password that players must provide to join the town, distinct from its update password */
+  joinPassword?: string;
+  /** Optional ID of an existing town whose layout and settings are copied into the new town */
+  sourceTownID?: string;
+  /** Update password of the source town, required when a sourceTownID is provided */
+  sourceTownPassword?: string;
+  /** Optional name of a saved template whose layout and settings are copied into the new town */
+  templateName?: string;
 }
 
 /**
@@ -70,6 +156,157 @@ export interface TownDeleteRequest {
   coveyTownPassword: string;
 }
 
+/**
+ * Payload sent by the client to remove (kick) or ban a player from a Town
+ */
+export interface PlayerModerationRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  /** ID of the player to remove * */
+  playerID: string;
+}
+
+/**
+ * Payload sent by the client to create an invite to a Town
+ */
+export interface InviteCreateRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  /** Time after which the invite may no longer be used, in ms since the epoch; never expires if not included */
+  expiresAt?: number;
+  /** Number of times that the invite may be used; no limit if not included */
+  maxUses?: number;
+  /** Role that players who join with the invite are given; 'member' if not included */
+  role?: TownRole;
+}
+
+/**
+ * Response from the server for an invite create request
+ */
+export interface InviteCreateResponse {
+  invite: TownInvite;
+}
+
+/**
+ * Payload sent by the client to list the invites to a Town
+ */
+export interface InviteListRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for an invite list request
+ */
+export interface InviteListResponse {
+  /** Invites that may still be used * */
+  invites: TownInvite[];
+}
+
+/**
+ * Payload sent by the client to revoke an invite to a Town
+ */
+export interface InviteRevokeRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  inviteToken: string;
+}
+
+/**
+ * Payload sent by the client to export a snapshot of a Town's configuration
+ */
+export interface TownExportRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for a Town export request
+ */
+export interface TownExportResponse {
+  snapshot: TownSnapshot;
+}
+
+/**
+ * Payload sent by the client to create a new Town from a snapshot of another Town's configuration
+ */
+export interface TownImportRequest {
+  snapshot: TownSnapshot;
+  isPubliclyListed: boolean;
+}
+
+/**
+ * Payload sent by the client to start or stop recording the events of a Town
+ */
+export interface RecordingRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for a request to stop recording a Town
+ */
+export interface RecordingStopResponse {
+  recording: TownRecording;
+}
+
+/**
+ * Payload sent by the client to create a read-only Town that replays a recording of another Town
+ */
+export interface ReplayCreateRequest {
+  recording: TownRecording;
+  isPubliclyListed: boolean;
+  /** How many times faster than the original pace to replay the recording; defaults to 1 * */
+  speed?: number;
+}
+
+/**
+ * Payload sent by the client to fetch the audit log of a Town
+ */
+export interface AuditLogRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  /** Only include events of these types * */
+  types?: AuditEventType[];
+  /** Only include events at or after this time, in ms since the epoch * */
+  since?: number;
+  /** Only include events at or before this time, in ms since the epoch * */
+  until?: number;
+}
+
+/**
+ * Response from the server for an audit log request
+ */
+export interface AuditLogResponse {
+  /** Matching events, oldest first * */
+  events: AuditEvent[];
+}
+
+/**
+ * Payload sent by the client to save a snapshot of a Town's configuration as a named template
+ */
+export interface TemplateCreateRequest {
+  templateName: string;
+  coveyTownID: string;
+  coveyTownPassword: string;
+}
+
+/**
+ * Response from the server for a template list request
+ */
+export interface TemplateListResponse {
+  templates: string[];
+}
+
+/**
+ * Payload sent by the client to replace the map of a Town
+ */
+export interface TownMapUpdateRequest {
+  coveyTownID: string;
+  coveyTownPassword: string;
+  map: TiledMap;
+}
+
 /**
  * Payload sent by the client to update a Town.
  * N.B., JavaScript is terrible, so:
@@ -80,6 +317,10 @@ export interface TownUpdateRequest {
   coveyTownPassword: string;
   friendlyName?: string;
   isPubliclyListed?: boolean;
+  /** Settings of the town to change, if any; optional settings that are null are removed */
+  settings?: TownSettingsUpdate;
+  /** New join password for the town, or an empty string to remove its join password */
+  joinPassword?: string;
 }
 
 /**
@@ -88,44 +329,300 @@ export interface TownUpdateRequest {
 export interface ResponseEnvelope<T> {
   isOK: boolean;
   message?: string;
+  /** Machine-readable reason that the request failed, which the server maps to an HTTP status * */
+  errorCode?: ResponseErrorCode;
   response?: T;
 }
 
+/** Number of socket events that each session may send at once, when SOCKET_RATE_LIMIT_BURST is not set */
+const DEFAULT_SOCKET_RATE_LIMIT_BURST = 120;
+
+/** Number of socket events that each session may send per second, when SOCKET_RATE_LIMIT_PER_SECOND is not set */
+const DEFAULT_SOCKET_RATE_LIMIT_PER_SECOND = 60;
+
+/** Limits the rate of the events that clients send over their sockets, by session token */
+const socketEventRateLimiter = new RateLimiter(
+  Number(process.env.SOCKET_RATE_LIMIT_BURST) || DEFAULT_SOCKET_RATE_LIMIT_BURST,
+  Number(process.env.SOCKET_RATE_LIMIT_PER_SECOND) || DEFAULT_SOCKET_RATE_LIMIT_PER_SECOND,
+);
+
+/** Response to requests that would start new sessions once the server has started shutting down */
+const SHUTTING_DOWN_RESPONSE: ResponseEnvelope<never> = {
+  isOK: false,
+  errorCode: 'serverShuttingDown',
+  message: 'Error: The server is shutting down. Please try again later',
+};
+
+/**
+ * Builds the response that a client receives once its player has joined a town
+ *
+ * @param coveyTownController the town that the player joined
+ * @param session the new player's session, which must already have a video token
+ */
+function townJoinResponse(coveyTownController: CoveyTownController, session: PlayerSession): TownJoinResponse {
+  assert(session.videoToken);
+  return {
+    coveyTownID: coveyTownController.coveyTownID,
+    coveyUserID: session.player.id,
+    coveySessionToken: session.sessionToken,
+    providerVideoToken: session.videoToken,
+    currentPlayers: coveyTownController.players,
+    friendlyName: coveyTownController.friendlyName,
+    isPubliclyListed: coveyTownController.isPubliclyListed,
+    conversationAreas: coveyTownController.conversationAreas,
+    chatHistory: coveyTownController.chatHistory,
+    settings: coveyTownController.settings,
+    role: session.role,
+  };
+}
+
+/**
+ * Checks the join password that a player provided to join (or wait to join) a town
+ *
+ * @param coveyTownController the town that the player would like to join
+ * @param joinPassword the password provided by the player, if any
+ * @returns an error response if the town has a join password that the player did not provide
+ *  correctly, or undefined if the player may join
+ */
+function checkJoinPassword(coveyTownController: CoveyTownController, joinPassword?: string): ResponseEnvelope<never> | undefined {
+  if (coveyTownController.isValidJoinPassword(joinPassword)) {
+    return undefined;
+  }
+  return {
+    isOK: false,
+    errorCode: 'invalidPassword',
+    message: joinPassword
+      ? 'Error: Invalid join password. Please double check the password for this town'
+      : 'Error: This town requires a join password',
+  };
+}
+
+/**
+ * Works out why a request that required a town's update password failed, for requests where the
+ * store only reports whether or not they succeeded
+ *
+ * @param coveyTownID the town that the request was made to
+ * @param coveyTownPassword the town update password provided with the request
+ * @param otherwise the error code to use if the town exists and the password is valid
+ */
+function townErrorCode(coveyTownID: string, coveyTownPassword: string, otherwise: ResponseErrorCode): ResponseErrorCode {
+  const townsStore = CoveyTownsStore.getInstance();
+  if (!townsStore.getControllerForTown(coveyTownID)) {
+    return 'notFound';
+  }
+  if (!townsStore.isValidTownPassword(coveyTownID, coveyTownPassword)) {
+    return 'invalidPassword';
+  }
+  return otherwise;
+}
+
 /**
  * A handler to process a player's request to join a town. The flow is:
  *  1. Client makes a TownJoinRequest, this handler is executed
  *  2. Client uses the sessionToken returned by this handler to make a subscription to the town,
  *  @see townSubscriptionHandler for the code that handles that request.
  *
+ * Players may join a town with its ID (and its join password, if it has one), or with an invite
+ * to the town, in which case they are given the invite's role.
+ *
  * @param requestData an object representing the player's request
  */
 export async function townJoinHandler(requestData: TownJoinRequest): Promise<ResponseEnvelope<TownJoinResponse>> {
   const townsStore = CoveyTownsStore.getInstance();
+  if (townsStore.isShuttingDown) {
+    return SHUTTING_DOWN_RESPONSE;
+  }
 
-  const coveyTownController = townsStore.getControllerForTown(requestData.coveyTownID);
+  const { inviteToken } = requestData;
+  const coveyTownController = inviteToken !== undefined
+    ? townsStore.getControllerForInvite(inviteToken)
+    : townsStore.getControllerForTown(requestData.coveyTownID ?? '');
+  const invite = inviteToken !== undefined ? coveyTownController?.getInvite(inviteToken) : undefined;
+  if (inviteToken !== undefined && (!coveyTownController || !invite
+    || (requestData.coveyTownID !== undefined && requestData.coveyTownID !== coveyTownController.coveyTownID))) {
+    return {
+      isOK: false,
+      errorCode: 'notFound',
+      message: 'Error: Invalid invite. It may have expired, been used up or been revoked',
+    };
+  }
   if (!coveyTownController) {
     return {
       isOK: false,
+      errorCode: 'notFound',
       message: 'Error: No such town',
     };
   }
+  // Invites let players join without the town's join password
+  const joinPasswordError = invite ? undefined : checkJoinPassword(coveyTownController, requestData.joinPassword);
+  if (joinPasswordError) {
+    return joinPasswordError;
+  }
+  if (coveyTownController.isBanned(requestData.userName, requestData.clientAddress)) {
+    return {
+      isOK: false,
+      errorCode: 'forbidden',
+      message: 'Error: You have been banned from this town',
+    };
+  }
+  if (coveyTownController.isFull) {
+    return {
+      isOK: false,
+      errorCode: 'conflict',
+      message: 'Error: Town is full. Join its waitlist to be admitted when a player leaves',
+    };
+  }
+  // Redeem the invite before waiting for the player's video token, so that concurrent joins can
+  // not use it more times than it allows
+  if (invite) {
+    coveyTownController.redeemInvite(invite);
+    townsStore.schedulePersistTowns();
+  }
   const newPlayer = new Player(requestData.userName);
-  const newSession = await coveyTownController.addPlayer(newPlayer);
-  assert(newSession.videoToken);
+  let newSession: PlayerSession;
+  try {
+    newSession = await coveyTownController.addPlayer(newPlayer, requestData.clientAddress);
+  } catch (err) {
+    if (invite) {
+      coveyTownController.releaseInvite(invite);
+      townsStore.schedulePersistTowns();
+    }
+    throw err;
+  }
+  if (invite) {
+    newSession.role = invite.role;
+  }
+  return {
+    isOK: true,
+    response: townJoinResponse(coveyTownController, newSession),
+  };
+}
+
+/**
+ * A handler to process a player's request to wait for a spot in a town that is full. The flow is:
+ *  1. Client makes a WaitlistJoinRequest, this handler is executed
+ *  2. Client either polls its position with the returned ticket (@see waitlistStatusHandler), or
+ *  subscribes to updates about its position by connecting to the town's socket with the ticket
+ *  (@see townSubscriptionHandler)
+ *  3. Once a player leaves, the client is admitted, and receives the same response as if it had
+ *  joined the town
+ *
+ * @param requestData an object representing the player's request
+ */
+export function waitlistJoinHandler(requestData: WaitlistJoinRequest): ResponseEnvelope<WaitlistJoinResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  if (townsStore.isShuttingDown) {
+    return SHUTTING_DOWN_RESPONSE;
+  }
+
+  const coveyTownController = townsStore.getControllerForTown(requestData.coveyTownID);
+  if (!coveyTownController) {
+    return {
+      isOK: false,
+      errorCode: 'notFound',
+      message: 'Error: No such town',
+    };
+  }
+  const joinPasswordError = checkJoinPassword(coveyTownController, requestData.joinPassword);
+  if (joinPasswordError) {
+    return joinPasswordError;
+  }
+  if (coveyTownController.isBanned(requestData.userName, requestData.clientAddress)) {
+    return {
+      isOK: false,
+      errorCode: 'forbidden',
+      message: 'Error: You have been banned from this town',
+    };
+  }
+  const entry = coveyTownController.joinWaitlist(requestData.userName, requestData.clientAddress);
   return {
     isOK: true,
     response: {
-      coveyUserID: newPlayer.id,
-      coveySessionToken: newSession.sessionToken,
-      providerVideoToken: newSession.videoToken,
-      currentPlayers: coveyTownController.players,
-      friendlyName: coveyTownController.friendlyName,
-      isPubliclyListed: coveyTownController.isPubliclyListed,
-      conversationAreas: coveyTownController.conversationAreas,
+      waitlistTicket: entry.ticket,
+      position: coveyTownController.getWaitlistPosition(entry),
     },
   };
 }
 
+/**
+ * A handler to check on a client's place on a town's waitlist. Once the client has been admitted
+ * (and its session is ready), the response includes its admission, and its ticket is used up.
+ *
+ * @param requestData an object representing the client's request
+ */
+export function waitlistStatusHandler(requestData: WaitlistStatusRequest): ResponseEnvelope<WaitlistStatusResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const coveyTownController = townsStore.getControllerForTown(requestData.coveyTownID);
+  const entry = coveyTownController?.getWaitlistEntry(requestData.waitlistTicket);
+  if (!coveyTownController || !entry) {
+    return {
+      isOK: false,
+      errorCode: 'notFound',
+      message: 'Error: No such waitlist ticket',
+    };
+  }
+  if (entry.session) {
+    coveyTownController.leaveWaitlist(entry.ticket);
+    return {
+      isOK: true,
+      response: { position: 0, admission: townJoinResponse(coveyTownController, entry.session) },
+    };
+  }
+  return {
+    isOK: true,
+    response: { position: coveyTownController.getWaitlistPosition(entry) },
+  };
+}
+
+/**
+ * A handler to give up a client's place on a town's waitlist
+ *
+ * @param requestData an object representing the client's request
+ */
+export function waitlistLeaveHandler(requestData: WaitlistStatusRequest): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const coveyTownController = townsStore.getControllerForTown(requestData.coveyTownID);
+  if (!coveyTownController?.leaveWaitlist(requestData.waitlistTicket)) {
+    return {
+      isOK: false,
+      errorCode: 'notFound',
+      message: 'Error: No such waitlist ticket',
+    };
+  }
+  return {
+    isOK: true,
+    response: {},
+  };
+}
+
+/**
+ * Re-computes the metrics that describe the current state of the towns, and renders every
+ * metric in the Prometheus text format
+ */
+export function metricsHandler(): string {
+  const metrics = Metrics.getInstance();
+  const towns = CoveyTownsStore.getInstance().getAllTowns();
+  metrics.towns.set({ visibility: 'public' }, towns.filter(town => town.isPubliclyListed).length);
+  metrics.towns.set({ visibility: 'private' }, towns.filter(town => !town.isPubliclyListed).length);
+  // Forget the towns that have been deleted since the metrics were last requested
+  metrics.townPlayers.reset();
+  metrics.townConversationAreas.reset();
+  towns.forEach(town => {
+    metrics.townPlayers.set({ town_id: town.coveyTownID }, town.players.length);
+    metrics.townConversationAreas.set({ town_id: town.coveyTownID }, town.conversationAreas.length);
+  });
+  return metrics.render();
+}
+
+/**
+ * Checks whether the server is ready to accept new sessions, which it is not once it has started
+ * shutting down
+ */
+export function readinessHandler(): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  return townsStore.isShuttingDown ? SHUTTING_DOWN_RESPONSE : { isOK: true, response: {} };
+}
+
 export function townListHandler(): ResponseEnvelope<TownListResponse> {
   const townsStore = CoveyTownsStore.getInstance();
   return {
@@ -134,15 +631,180 @@ export function townListHandler(): ResponseEnvelope<TownListResponse> {
   };
 }
 
+/**
+ * Creates a new town with the same layout and settings as an existing town or a saved template,
+ * but with a fresh ID, password and no players. Any settings in the request replace those of the
+ * town or template.
+ */
+function cloneTown(requestData: TownCreateRequest): ResponseEnvelope<CoveyTownController> {
+  const townsStore = CoveyTownsStore.getInstance();
+  if (requestData.sourceTownID !== undefined && requestData.templateName !== undefined) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: 'Only one of sourceTownID and templateName may be specified',
+    };
+  }
+  if (requestData.map !== undefined) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: 'A map can not be specified when cloning a town',
+    };
+  }
+  let snapshot: TownSnapshot | undefined;
+  if (requestData.sourceTownID !== undefined) {
+    snapshot = townsStore.exportTown(requestData.sourceTownID, requestData.sourceTownPassword ?? '');
+    if (!snapshot) {
+      return {
+        isOK: false,
+        errorCode: townErrorCode(requestData.sourceTownID, requestData.sourceTownPassword ?? '', 'invalidPassword'),
+        message: 'Invalid source town. Please double check the source town ID and its update password.',
+      };
+    }
+  } else {
+    snapshot = townsStore.getTemplate(requestData.templateName ?? '');
+    if (!snapshot) {
+      return {
+        isOK: false,
+        errorCode: 'notFound',
+        message: 'Error: No such template',
+      };
+    }
+  }
+  if (requestData.settings !== undefined && !CoveyTownController.isValidNewTownSettings(requestData.settings,
+    snapshot.map !== undefined ? TownMap.fromTiled(snapshot.map) : undefined)) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: 'Invalid town settings',
+    };
+  }
+  const newTown = townsStore.importTown({
+    ...snapshot,
+    friendlyName: requestData.friendlyName,
+    settings: { ...snapshot.settings, ...requestData.settings },
+  }, requestData.isPubliclyListed);
+  if (!newTown) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: 'Unable to clone the town',
+    };
+  }
+  if (requestData.joinPassword) {
+    townsStore.updateTown(newTown.coveyTownID, newTown.townUpdatePassword, undefined, undefined,
+      undefined, requestData.joinPassword);
+  }
+  return {
+    isOK: true,
+    response: newTown,
+  };
+}
+
 export function townCreateHandler(requestData: TownCreateRequest): ResponseEnvelope<TownCreateResponse> {
   const townsStore = CoveyTownsStore.getInstance();
   if (requestData.friendlyName.length === 0) {
     return {
       isOK: false,
+      errorCode: 'invalidRequest',
       message: 'FriendlyName must be specified',
     };
   }
-  const newTown = townsStore.createTown(requestData.friendlyName, requestData.isPubliclyListed);
+  let newTown: CoveyTownController;
+  if (requestData.sourceTownID !== undefined || requestData.templateName !== undefined) {
+    const cloneResult = cloneTown(requestData);
+    if (!cloneResult.response) {
+      return {
+        isOK: false,
+        errorCode: cloneResult.errorCode,
+        message: cloneResult.message,
+      };
+    }
+    newTown = cloneResult.response;
+  } else {
+    const map = requestData.map !== undefined ? TownMap.fromTiled(requestData.map) : undefined;
+    if (requestData.map !== undefined && !map) {
+      return {
+        isOK: false,
+        errorCode: 'invalidRequest',
+        message: 'Map must be a valid Tiled JSON map',
+      };
+    }
+    if (requestData.settings !== undefined
+      && !CoveyTownController.isValidNewTownSettings(requestData.settings, map)) {
+      return {
+        isOK: false,
+        errorCode: 'invalidRequest',
+        message: 'Invalid town settings',
+      };
+    }
+    newTown = townsStore.createTown(requestData.friendlyName, requestData.isPubliclyListed, map,
+      requestData.joinPassword, requestData.settings);
+  }
+  return {
+    isOK: true,
+    response: {
+      coveyTownID: newTown.coveyTownID,
+      coveyTownPassword: newTown.townUpdatePassword,
+    },
+  };
+}
+
+export function templateCreateHandler(requestData: TemplateCreateRequest): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const success = townsStore.saveTemplate(requestData.templateName, requestData.coveyTownID,
+    requestData.coveyTownPassword);
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'conflict') : undefined,
+    message: !success ? 'Unable to save template. The template name must be unique and the town password must be valid.' : undefined,
+  };
+}
+
+export function templateListHandler(): ResponseEnvelope<TemplateListResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  return {
+    isOK: true,
+    response: { templates: townsStore.getTemplateNames() },
+  };
+}
+
+export function townExportHandler(requestData: TownExportRequest): ResponseEnvelope<TownExportResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const snapshot = townsStore.exportTown(requestData.coveyTownID, requestData.coveyTownPassword);
+  if (!snapshot) {
+    return {
+      isOK: false,
+      errorCode: townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'invalidPassword'),
+      message: 'Invalid password. Please double check your town update password.',
+    };
+  }
+  return {
+    isOK: true,
+    response: { snapshot },
+  };
+}
+
+export function townImportHandler(requestData: TownImportRequest): ResponseEnvelope<TownCreateResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const version = requestData.snapshot?.version;
+  if (version !== TOWN_SNAPSHOT_VERSION) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: `Unsupported snapshot version ${version}. This server can only import version ${TOWN_SNAPSHOT_VERSION} snapshots`,
+    };
+  }
+  const newTown = townsStore.importTown(requestData.snapshot, requestData.isPubliclyListed);
+  if (!newTown) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: 'Invalid snapshot. Conversation areas must have unique labels, topics and bounding boxes that do not overlap each other or any walls, and the settings and map must be valid',
+    };
+  }
   return {
     isOK: true,
     response: {
@@ -158,19 +820,197 @@ export function townDeleteHandler(requestData: TownDeleteRequest): ResponseEnvel
   return {
     isOK: success,
     response: {},
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'invalidPassword') : undefined,
     message: !success ? 'Invalid password. Please double check your town update password.' : undefined,
   };
 }
 
 export function townUpdateHandler(requestData: TownUpdateRequest): ResponseEnvelope<Record<string, null>> {
   const townsStore = CoveyTownsStore.getInstance();
-  const success = townsStore.updateTown(requestData.coveyTownID, requestData.coveyTownPassword, requestData.friendlyName, requestData.isPubliclyListed);
+  const success = townsStore.updateTown(requestData.coveyTownID, requestData.coveyTownPassword,
+    requestData.friendlyName, requestData.isPubliclyListed, requestData.settings, requestData.joinPassword);
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'invalidRequest') : undefined,
+    message: !success ? 'Invalid password, settings or update values specified. Please double check your town update password.' : undefined,
+  };
+
+}
+
+export function townMapUpdateHandler(requestData: TownMapUpdateRequest): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const map = TownMap.fromTiled(requestData.map);
+  if (!map) {
+    return {
+      isOK: false,
+      response: {},
+      errorCode: 'invalidRequest',
+      message: 'Map must be a valid Tiled JSON map',
+    };
+  }
+  const success = townsStore.updateTownMap(requestData.coveyTownID, requestData.coveyTownPassword, map);
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'conflict') : undefined,
+    message: !success ? 'Invalid password, or an existing conversation area overlaps a wall on the new map.' : undefined,
+  };
+}
+
+export function inviteCreateHandler(requestData: InviteCreateRequest): ResponseEnvelope<InviteCreateResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const invite = townsStore.createInvite(requestData.coveyTownID, requestData.coveyTownPassword,
+    requestData.expiresAt, requestData.maxUses, requestData.role);
+  if (!invite) {
+    return {
+      isOK: false,
+      errorCode: townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'invalidRequest'),
+      message: 'Invalid password or invite options. Invites must expire in the future, and may be used a positive number of times.',
+    };
+  }
+  return {
+    isOK: true,
+    response: { invite },
+  };
+}
+
+export function inviteListHandler(requestData: InviteListRequest): ResponseEnvelope<InviteListResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const invites = townsStore.listInvites(requestData.coveyTownID, requestData.coveyTownPassword);
+  if (!invites) {
+    return {
+      isOK: false,
+      errorCode: townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'invalidPassword'),
+      message: 'Invalid password. Please double check your town update password.',
+    };
+  }
+  return {
+    isOK: true,
+    response: { invites },
+  };
+}
+
+export function inviteRevokeHandler(requestData: InviteRevokeRequest): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const success = townsStore.revokeInvite(requestData.coveyTownID, requestData.coveyTownPassword, requestData.inviteToken);
   return {
     isOK: success,
     response: {},
-    message: !success ? 'Invalid password or update values specified. Please double check your town update password.' : undefined,
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'notFound') : undefined,
+    message: !success ? 'Invalid password, or no such invite to this town.' : undefined,
   };
+}
 
+export function recordingStartHandler(requestData: RecordingRequest): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const success = townsStore.startRecording(requestData.coveyTownID, requestData.coveyTownPassword);
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'conflict') : undefined,
+    message: !success ? 'Invalid password, or this town is already being recorded.' : undefined,
+  };
+}
+
+export function recordingStopHandler(requestData: RecordingRequest): ResponseEnvelope<RecordingStopResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const recording = townsStore.stopRecording(requestData.coveyTownID, requestData.coveyTownPassword);
+  if (!recording) {
+    return {
+      isOK: false,
+      errorCode: townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'conflict'),
+      message: 'Invalid password, or this town is not being recorded.',
+    };
+  }
+  return {
+    isOK: true,
+    response: { recording },
+  };
+}
+
+export function replayCreateHandler(requestData: ReplayCreateRequest): ResponseEnvelope<TownCreateResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const replayTown = townsStore.createReplayTown(requestData.recording, requestData.isPubliclyListed,
+    requestData.speed);
+  if (!replayTown) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: 'Invalid recording or speed. The speed must be a positive number.',
+    };
+  }
+  return {
+    isOK: true,
+    response: {
+      coveyTownID: replayTown.coveyTownID,
+      coveyTownPassword: replayTown.townUpdatePassword,
+    },
+  };
+}
+
+export function auditLogHandler(requestData: AuditLogRequest): ResponseEnvelope<AuditLogResponse> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const isValidTime = (time?: number) => time === undefined || Number.isFinite(time);
+  if (requestData.types?.some(type => !AUDIT_EVENT_TYPES.includes(type))
+    || !isValidTime(requestData.since) || !isValidTime(requestData.until)) {
+    return {
+      isOK: false,
+      errorCode: 'invalidRequest',
+      message: `Invalid audit log filter. Event types must be one of ${AUDIT_EVENT_TYPES.join(', ')}, and times must be in ms since the epoch.`,
+    };
+  }
+  const events = townsStore.getAuditEvents(requestData.coveyTownID, requestData.coveyTownPassword, {
+    types: requestData.types,
+    since: requestData.since,
+    until: requestData.until,
+  });
+  if (!events) {
+    return {
+      isOK: false,
+      errorCode: townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'invalidPassword'),
+      message: 'Invalid password. Please double check your town update password.',
+    };
+  }
+  return {
+    isOK: true,
+    response: { events },
+  };
+}
+
+export function playerKickHandler(requestData: PlayerModerationRequest): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const success = townsStore.kickPlayer(requestData.coveyTownID, requestData.coveyTownPassword, requestData.playerID);
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'notFound') : undefined,
+    message: !success ? 'Invalid password, or no such player in this town.' : undefined,
+  };
+}
+
+export function playerBanHandler(requestData: PlayerModerationRequest): ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const success = townsStore.banPlayer(requestData.coveyTownID, requestData.coveyTownPassword, requestData.playerID);
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? townErrorCode(requestData.coveyTownID, requestData.coveyTownPassword, 'notFound') : undefined,
+    message: !success ? 'Invalid password, or no such player in this town.' : undefined,
+  };
+}
+
+/**
+ * Checks whether a player may do the things that are otherwise reserved for the owner of a town:
+ * either they provided the town update password, or they are a moderator of the town
+ *
+ * @param coveyTownID the town
+ * @param session the session of the player
+ * @param coveyTownPassword the town update password provided by the player, if any
+ */
+function hasOwnerPermissions(coveyTownID: string, session: PlayerSession, coveyTownPassword?: string): boolean {
+  return session.role === 'moderator'
+    || CoveyTownsStore.getInstance().isValidTownPassword(coveyTownID, coveyTownPassword ?? '');
 }
 
 /**
@@ -178,26 +1018,168 @@ export function townUpdateHandler(requestData: TownUpdateRequest): ResponseEnvel
  * The intended flow of this handler is:
  * * Fetch the town controller for the specified town ID
  * * Validate that the sessionToken is valid for that town
+ * * If the conversation area is pinned, or only the town's owner may create conversation areas,
+ *   validate the town update password (unless the player is a moderator)
  * * Ask the TownController to create the conversation area
  * @param _requestData Conversation area create request
  */
 export function conversationAreaCreateHandler(_requestData: ConversationAreaCreateRequest) : ResponseEnvelope<Record<string, null>> {
   const townsStore = CoveyTownsStore.getInstance();
   const townController = townsStore.getControllerForTown(_requestData.coveyTownID);
-  if (!townController?.getSessionByToken(_requestData.sessionToken)){
+  const session = townController?.getSessionByToken(_requestData.sessionToken);
+  if (!townController || !session){
     return {
-      isOK: false, response: {}, message: `Unable to create conversation area ${_requestData.conversationArea.label} with topic ${_requestData.conversationArea.topic}`,
+      isOK: false,
+      response: {},
+      errorCode: townController ? 'forbidden' : 'notFound',
+      message: `Unable to create conversation area ${_requestData.conversationArea.label} with topic ${_requestData.conversationArea.topic}`,
+    };
+  }
+  if (_requestData.conversationArea.isPinned
+    && !hasOwnerPermissions(_requestData.coveyTownID, session, _requestData.coveyTownPassword)) {
+    return {
+      isOK: false, response: {}, errorCode: 'invalidPassword', message: 'Invalid password. Pinning a conversation area requires the town update password.',
+    };
+  }
+  if (townController.settings.conversationAreaCreation === 'owner'
+    && !hasOwnerPermissions(_requestData.coveyTownID, session, _requestData.coveyTownPassword)) {
+    return {
+      isOK: false, response: {}, errorCode: 'invalidPassword', message: 'Invalid password. Only the owner of this town may create conversation areas.',
     };
   }
   const success = townController.addConversationArea(_requestData.conversationArea);
+  if (success) {
+    townsStore.recordAuditEvent(townController.coveyTownID, 'conversationAreaCreated', session.player.id,
+      _requestData.conversationArea.label);
+  }
 
   return {
     isOK: success,
     response: {},
+    errorCode: !success ? 'conflict' : undefined,
     message: !success ? `Unable to create conversation area ${_requestData.conversationArea.label} with topic ${_requestData.conversationArea.topic}` : undefined,
   };
 }
 
+/**
+ * Works out why a conversation area could not be updated: either it does not exist, or the update
+ * would clash with the town's other conversation areas or its map
+ */
+function conversationAreaErrorCode(townController: CoveyTownController, conversationLabel: string): ResponseErrorCode {
+  return townController.conversationAreas.find(area => area.label === conversationLabel) ? 'conflict' : 'notFound';
+}
+
+/**
+ * Checks whether a player may change or delete a conversation area. Pinned conversation areas,
+ * and every conversation area of a town in which only the owner may create them, are reserved for
+ * the owner of the town (see hasOwnerPermissions).
+ *
+ * @param townController the town
+ * @param session the session of the player
+ * @param conversationLabel label of the conversation area
+ * @param coveyTownPassword the town update password provided by the player, if any
+ */
+function mayChangeConversationArea(townController: CoveyTownController, session: PlayerSession,
+  conversationLabel: string, coveyTownPassword?: string): boolean {
+  const conversationArea = townController.conversationAreas.find(area => area.label === conversationLabel);
+  if (!conversationArea?.isPinned && townController.settings.conversationAreaCreation !== 'owner') {
+    return true;
+  }
+  return hasOwnerPermissions(townController.coveyTownID, session, coveyTownPassword);
+}
+
+/**
+ * A handler to process the "Update Conversation Area" request
+ * The intended flow of this handler is:
+ * * Fetch the town controller for the specified town ID
+ * * Validate that the sessionToken is valid for that town
+ * * If the pinned status is being changed, the conversation area is pinned, or only the town's
+ *   owner may create conversation areas, validate the town update password (unless the player is
+ *   a moderator)
+ * * Ask the TownController to update the conversation area's topic, bounding box and/or pinned status
+ * @param requestData Conversation area update request
+ */
+export function conversationAreaUpdateHandler(requestData: ConversationAreaUpdateRequest) : ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const townController = townsStore.getControllerForTown(requestData.coveyTownID);
+  const session = townController?.getSessionByToken(requestData.sessionToken);
+  if (!townController || !session){
+    return {
+      isOK: false,
+      response: {},
+      errorCode: townController ? 'forbidden' : 'notFound',
+      message: `Unable to update conversation area ${requestData.conversationLabel}`,
+    };
+  }
+  if (requestData.isPinned !== undefined
+    && !hasOwnerPermissions(requestData.coveyTownID, session, requestData.coveyTownPassword)) {
+    return {
+      isOK: false, response: {}, errorCode: 'invalidPassword', message: 'Invalid password. Pinning a conversation area requires the town update password.',
+    };
+  }
+  if (!mayChangeConversationArea(townController, session, requestData.conversationLabel,
+    requestData.coveyTownPassword)) {
+    return {
+      isOK: false, response: {}, errorCode: 'invalidPassword', message: 'Invalid password. Only the owner of this town may change this conversation area.',
+    };
+  }
+  const success = townController.updateConversationArea(requestData.conversationLabel,
+    requestData.topic, requestData.boundingBox, requestData.isPinned);
+  if (success) {
+    townsStore.recordAuditEvent(townController.coveyTownID, 'conversationAreaUpdated', session.player.id,
+      requestData.conversationLabel);
+  }
+
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? conversationAreaErrorCode(townController, requestData.conversationLabel) : undefined,
+    message: !success ? `Unable to update conversation area ${requestData.conversationLabel}` : undefined,
+  };
+}
+
+/**
+ * A handler to process the "Delete Conversation Area" request
+ * The intended flow of this handler is:
+ * * Fetch the town controller for the specified town ID
+ * * Validate that the sessionToken is valid for that town
+ * * If the conversation area is pinned, or only the town's owner may create conversation areas,
+ *   validate the town update password (unless the player is a moderator)
+ * * Ask the TownController to destroy the conversation area
+ * @param requestData Conversation area delete request
+ */
+export function conversationAreaDeleteHandler(requestData: ConversationAreaDeleteRequest) : ResponseEnvelope<Record<string, null>> {
+  const townsStore = CoveyTownsStore.getInstance();
+  const townController = townsStore.getControllerForTown(requestData.coveyTownID);
+  const session = townController?.getSessionByToken(requestData.sessionToken);
+  if (!townController || !session){
+    return {
+      isOK: false,
+      response: {},
+      errorCode: townController ? 'forbidden' : 'notFound',
+      message: `Unable to delete conversation area ${requestData.conversationLabel}`,
+    };
+  }
+  if (!mayChangeConversationArea(townController, session, requestData.conversationLabel,
+    requestData.coveyTownPassword)) {
+    return {
+      isOK: false, response: {}, errorCode: 'invalidPassword', message: 'Invalid password. Only the owner of this town may delete this conversation area.',
+    };
+  }
+  const success = townController.destroyConversationArea(requestData.conversationLabel);
+  if (success) {
+    townsStore.recordAuditEvent(townController.coveyTownID, 'conversationAreaDeleted', session.player.id,
+      requestData.conversationLabel);
+  }
+
+  return {
+    isOK: success,
+    response: {},
+    errorCode: !success ? 'notFound' : undefined,
+    message: !success ? `Unable to delete conversation area ${requestData.conversationLabel}` : undefined,
+  };
+}
+
 /**
  * An adapter between CoveyTownController's event interface (CoveyTownListener)
  * and the low-level network communication protocol
@@ -225,9 +1207,81 @@ function townSocketAdapter(socket: Socket): CoveyTownListener {
     onConversationAreaUpdated(conversation: ServerConversationArea){
       socket.emit('conversationUpdated', conversation);
     },
+    onChatMessage(message: ChatMessage) {
+      socket.emit('chatMessage', message);
+    },
+    onChatHistory(messages: ChatMessage[]) {
+      socket.emit('chatHistory', messages);
+    },
+    onDirectMessage(message: ChatMessage) {
+      socket.emit('directMessage', message);
+    },
+    onPlayerAwayStatusChanged(player: Player) {
+      socket.emit('playerAwayStatusChanged', player);
+    },
+    onPlayerProfileUpdated(player: Player) {
+      socket.emit('playerProfileUpdated', player);
+    },
+    onPlayerKicked(reason: PlayerRemovalReason) {
+      socket.emit('kicked', { reason });
+      socket.disconnect(true);
+    },
+    onServerShuttingDown(secondsRemaining: number) {
+      socket.emit('serverShuttingDown', { secondsRemaining });
+    },
+  };
+}
+
+/**
+ * An adapter between CoveyTownController's waitlist event interface (WaitlistListener)
+ * and the low-level network communication protocol
+ *
+ * @param socket the Socket object that we will use to communicate with the waiting client
+ * @param townController the town that the client is waiting to join
+ * @param ticket the client's waitlist ticket
+ */
+function waitlistSocketAdapter(socket: Socket, townController: CoveyTownController, ticket: string): WaitlistListener {
+  return {
+    onWaitlistPositionChanged(position: number) {
+      socket.emit('waitlistPosition', { position });
+    },
+    onWaitlistAdmitted(session: PlayerSession) {
+      townController.leaveWaitlist(ticket);
+      socket.emit('waitlistAdmitted', townJoinResponse(townController, session));
+      socket.disconnect(true);
+    },
   };
 }
 
+/**
+ * A handler to process a remote client's subscription to updates about its place on a town's
+ * waitlist. Once the client is admitted, it is sent its admission and disconnected, after which
+ * it should subscribe to the town with its new session token.
+ *
+ * @param socket the Socket object that we will use to communicate with the waiting client
+ * @param townController the town that the client is waiting to join
+ * @param ticket the client's waitlist ticket
+ */
+function waitlistSubscriptionHandler(socket: Socket, townController: CoveyTownController, ticket: string): void {
+  const entry = townController.getWaitlistEntry(ticket);
+  if (!entry) {
+    socket.disconnect(true);
+    return;
+  }
+  const listener = waitlistSocketAdapter(socket, townController, ticket);
+  if (entry.session) {
+    listener.onWaitlistAdmitted(entry.session);
+    return;
+  }
+  entry.listener = listener;
+  socket.on('disconnect', () => {
+    if (entry.listener === listener) {
+      entry.listener = undefined;
+    }
+  });
+  listener.onWaitlistPositionChanged(townController.getWaitlistPosition(entry));
+}
+
 /**
  * A handler to process a remote player's subscription to updates for a town
  *
@@ -236,11 +1290,17 @@ function townSocketAdapter(socket: Socket): CoveyTownListener {
 export function townSubscriptionHandler(socket: Socket): void {
   // Parse the client's session token from the connection
   // For each player, the session token should be the same string returned by joinTownHandler
-  const { token, coveyTownID } = socket.handshake.auth as { token: string; coveyTownID: string };
+  // Clients that are waiting to join a full town instead provide their waitlist ticket
+  const { token, coveyTownID, waitlistTicket } = socket.handshake.auth as { token: string; coveyTownID: string; waitlistTicket?: string };
 
   const townController = CoveyTownsStore.getInstance()
     .getControllerForTown(coveyTownID);
 
+  if (townController && waitlistTicket !== undefined) {
+    waitlistSubscriptionHandler(socket, townController, waitlistTicket);
+    return;
+  }
+
   // Retrieve our metadata about this player from the TownController
   const s = townController?.getSessionByToken(token);
   if (!s || !townController) {
@@ -249,22 +1309,89 @@ export function townSubscriptionHandler(socket: Socket): void {
     return;
   }
 
+  // If the client is reconnecting after a transient disconnection, bring it up to date with
+  // everything that happened while it was disconnected
+  if (townController.resumeSession(s)) {
+    socket.emit('sessionResumed', townJoinResponse(townController, s));
+  }
+
+  // Registers an event listener for the client socket that drops the events of clients that send
+  // them too quickly (for instance, hundreds of movements a second), and lets the client know
+  // when it may send events again
+  const onRateLimited = <Args extends unknown[]>(event: string, handler: (...args: Args) => void) => {
+    socket.on(event, (...args: unknown[]) => {
+      const retryAfterMs = socketEventRateLimiter.consume(s.sessionToken);
+      if (retryAfterMs > 0) {
+        socket.emit('throttled', { event, retryAfterMs });
+        return;
+      }
+      handler(...(args as Args));
+    });
+  };
+
   // Create an adapter that will translate events from the CoveyTownController into
   // events that the socket protocol knows about
   const listener = townSocketAdapter(socket);
-  townController.addTownListener(listener);
+  townController.addTownListener(listener, s.player.id);
 
   // Register an event listener for the client socket: if the client disconnects,
   // clean up our listener adapter, and then let the CoveyTownController know that the
-  // player's session is disconnected
+  // player's client is disconnected. The session is destroyed unless the client reconnects
+  // within the grace period
   socket.on('disconnect', () => {
     townController.removeTownListener(listener);
-    townController.destroySession(s);
+    townController.disconnectSession(s);
   });
 
   // Register an event listener for the client socket: if the client updates their
-  // location, inform the CoveyTownController
-  socket.on('playerMovement', (movementData: UserLocation) => {
-    townController.updatePlayerLocation(s.player, movementData);
+  // location, inform the CoveyTownController. If the movement is rejected, send the player's
+  // last valid location back to the client so that it can correct its position
+  onRateLimited('playerMovement', (movementData: UserLocation) => {
+    const accepted = townController.movePlayer(s, movementData);
+    Metrics.getInstance().playerMovements.inc({ result: accepted ? 'accepted' : 'rejected' });
+    if (!accepted) {
+      socket.emit('locationCorrection', s.player.location);
+    }
+  });
+
+  // Register an event listener for the client socket: clients send heartbeats while the player
+  // is using them, so that the player is not considered idle even if they are not moving
+  onRateLimited('heartbeat', () => {
+    townController.recordActivity(s);
+  });
+
+  // Register an event listener for the client socket: if the client changes the player's status,
+  // status message or avatar, inform the CoveyTownController. If the change is rejected, let the
+  // client know
+  onRateLimited('playerProfileUpdate', (profile: Partial<PlayerProfile>) => {
+    if (!townController.updatePlayerProfile(s, profile)) {
+      socket.emit('playerProfileRejected', profile);
+    }
+  });
+
+  // Register an event listener for the client socket: if the client sends a chat message (to
+  // the whole town, or to their conversation area), inform the CoveyTownController. If the message
+  // is rejected (because it is too long, the player is sending messages too quickly, or the
+  // player is not in the conversation area), let the client know
+  onRateLimited('chatMessage', (message: { body: string; conversationLabel?: string }) => {
+    if (!townController.sendChatMessage(s, message?.body, message?.conversationLabel)) {
+      socket.emit('chatMessageRejected', message);
+    }
+  });
+
+  // Register an event listener for the client socket: if the client sends a direct message to
+  // another player, ask the CoveyTownController to deliver it. The client is told whether the
+  // message was delivered through the (optional) acknowledgement callback
+  onRateLimited('directMessage', (message: { recipientID: string; body: string },
+    acknowledge?: (response: ResponseEnvelope<ChatMessage>) => void) => {
+    const respond = typeof acknowledge === 'function' ? acknowledge : () => {};
+    if (!townController.isPlayerConnected(message?.recipientID)) {
+      respond({ isOK: false, message: 'Recipient is not connected to this town' });
+      return;
+    }
+    const delivered = townController.sendDirectMessage(s, message.recipientID, message.body);
+    respond(delivered
+      ? { isOK: true, response: delivered }
+      : { isOK: false, message: 'Unable to send direct message' });
   });
 }
@@ -0,0 +1,50 @@
+import {
+  CONVERSATION_AREA_CREATE_REQUEST_SCHEMA, CONVERSATION_AREA_UPDATE_REQUEST_SCHEMA, TOWN_CREATE_REQUEST_SCHEMA,
+  validateRequest,
+} from './RequestSchemas';
+
+describe('validateRequest', () => {
+  it('accepts requests that match the schema, ignoring fields that it does not describe', () => {
+    expect(validateRequest(TOWN_CREATE_REQUEST_SCHEMA, { friendlyName: 'town', isPubliclyListed: true })).toBeUndefined();
+    expect(validateRequest(TOWN_CREATE_REQUEST_SCHEMA, {
+      friendlyName: 'town', isPubliclyListed: false, settings: {}, other: 1,
+    })).toBeUndefined();
+  });
+
+  it('describes missing fields and fields of the wrong type', () => {
+    expect(validateRequest(TOWN_CREATE_REQUEST_SCHEMA, { isPubliclyListed: true })).toEqual('friendlyName is required');
+    expect(validateRequest(TOWN_CREATE_REQUEST_SCHEMA, { friendlyName: 'town', isPubliclyListed: 'yes' }))
+      .toEqual('isPubliclyListed must be a boolean');
+    expect(validateRequest(TOWN_CREATE_REQUEST_SCHEMA, { friendlyName: 'town', isPubliclyListed: true, map: [] }))
+      .toEqual('map must be an object');
+    expect(validateRequest(TOWN_CREATE_REQUEST_SCHEMA, 'town')).toEqual('The request body must be an object');
+  });
+
+  it('validates nested objects and arrays', () => {
+    const conversationArea = {
+      label: 'label', topic: 'topic', occupantsByID: [], boundingBox: { x: 1, y: 1, width: 1, height: 1 },
+    };
+    expect(validateRequest(CONVERSATION_AREA_CREATE_REQUEST_SCHEMA, { sessionToken: 't', conversationArea }))
+      .toBeUndefined();
+    expect(validateRequest(CONVERSATION_AREA_CREATE_REQUEST_SCHEMA, {
+      sessionToken: 't', conversationArea: { ...conversationArea, boundingBox: { x: 1, y: 1, width: '1', height: 1 } },
+    })).toEqual('conversationArea.boundingBox.width must be a number');
+    expect(validateRequest(CONVERSATION_AREA_CREATE_REQUEST_SCHEMA, {
+      sessionToken: 't', conversationArea: { ...conversationArea, occupantsByID: ['a', 2] },
+    })).toEqual('conversationArea.occupantsByID[1] must be a string');
+    expect(validateRequest(CONVERSATION_AREA_CREATE_REQUEST_SCHEMA, {
+      sessionToken: 't', conversationArea: { ...conversationArea, boundingBox: { x: 1, y: 1, width: 1, height: -1 } },
+    })).toEqual('conversationArea.boundingBox.height must be positive');
+  });
+
+  it('requires bounding boxes of conversation area updates to have a positive size', () => {
+    expect(validateRequest(CONVERSATION_AREA_UPDATE_REQUEST_SCHEMA, { sessionToken: 't', topic: 'topic' }))
+      .toBeUndefined();
+    expect(validateRequest(CONVERSATION_AREA_UPDATE_REQUEST_SCHEMA, {
+      sessionToken: 't', boundingBox: { x: 'oops', y: 1, width: 1, height: 1 },
+    })).toEqual('boundingBox.x must be a number');
+    expect(validateRequest(CONVERSATION_AREA_UPDATE_REQUEST_SCHEMA, {
+      sessionToken: 't', boundingBox: { x: 1, y: 1, width: 0, height: 1 },
+    })).toEqual('boundingBox.width must be positive');
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * A declarative description of the values that a field of a request may take
+ */
+export type FieldSchema = { optional?: boolean } & (
+  { type: 'string' }
+  | { type: 'number', positive?: boolean }
+  | { type: 'boolean' }
+  | { type: 'array', items: FieldSchema }
+  | { type: 'object', fields?: RequestSchema }
+);
+
+/**
+ * A declarative description of the body of a request, by the name of each of its fields. Fields
+ * that are not described are ignored.
+ */
+export type RequestSchema = { [field: string]: FieldSchema };
+
+/**
+ * Checks a value against the schema of a single field
+ *
+ * @param schema the schema of the field
+ * @param value the value of the field
+ * @param path the name of the field, including the names of the objects that it is nested in
+ * @returns a description of the first problem with the value, or undefined if it is valid
+ */
+function validateField(schema: FieldSchema, value: unknown, path: string): string | undefined {
+  if (value === undefined) {
+    return schema.optional ? undefined : `${path} is required`;
+  }
+  switch (schema.type) {
+    case 'string':
+    case 'boolean':
+      return typeof value === schema.type ? undefined : `${path} must be a ${schema.type}`;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${path} must be a number`;
+      }
+      return !schema.positive || value > 0 ? undefined : `${path} must be positive`;
+    case 'array':
+      if (!Array.isArray(value)) {
+        return `${path} must be an array`;
+      }
+      return value.map((item, index) => validateField(schema.items, item, `${path}[${index}]`))
+        .find(problem => problem !== undefined);
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${path || 'The request body'} must be an object`;
+      }
+      const { fields } = schema;
+      if (!fields) {
+        return undefined;
+      }
+      const fieldValues = value as Record<string, unknown>;
+      return Object.keys(fields)
+        .map(field => validateField(fields[field], fieldValues[field], path ? `${path}.${field}` : field))
+        .find(problem => problem !== undefined);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks the body of a request against its schema
+ *
+ * @param schema the schema of the request
+ * @param body the body of the request, as parsed from JSON
+ * @returns a description of the first problem with the body, or undefined if it is valid
+ */
+export function validateRequest(schema: RequestSchema, body: unknown): string | undefined {
+  return validateField({ type: 'object', fields: schema }, body, '');
+}
+
+/**
+ * Schema of a TownCreateRequest
+ */
+export const TOWN_CREATE_REQUEST_SCHEMA: RequestSchema = {
+  friendlyName: { type: 'string' },
+  isPubliclyListed: { type: 'boolean' },
+  map: { type: 'object', optional: true },
+  settings: { type: 'object', optional: true },
+  joinPassword: { type: 'string', optional: true },
+  sourceTownID: { type: 'string', optional: true },
+  sourceTownPassword: { type: 'string', optional: true },
+  templateName: { type: 'string', optional: true },
+};
+
+/**
+ * Schema of the body of a TownUpdateRequest, whose coveyTownID is taken from the request's path
+ */
+export const TOWN_UPDATE_REQUEST_SCHEMA: RequestSchema = {
+  coveyTownPassword: { type: 'string' },
+  friendlyName: { type: 'string', optional: true },
+  isPubliclyListed: { type: 'boolean', optional: true },
+  settings: { type: 'object', optional: true },
+  joinPassword: { type: 'string', optional: true },
+};
+
+/**
+ * Schema of a TownJoinRequest, whose clientAddress is determined by the server
+ */
+export const TOWN_JOIN_REQUEST_SCHEMA: RequestSchema = {
+  userName: { type: 'string' },
+  coveyTownID: { type: 'string', optional: true },
+  inviteToken: { type: 'string', optional: true },
+  joinPassword: { type: 'string', optional: true },
+};
+
+/**
+ * Schema of the bounding box of a conversation area
+ */
+const BOUNDING_BOX_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    width: { type: 'number', positive: true },
+    height: { type: 'number', positive: true },
+  },
+};
+
+/**
+ * Schema of the body of a ConversationAreaCreateRequest, whose coveyTownID is taken from the
+ * request's path
+ */
+export const CONVERSATION_AREA_CREATE_REQUEST_SCHEMA: RequestSchema = {
+  sessionToken: { type: 'string' },
+  coveyTownPassword: { type: 'string', optional: true },
+  conversationArea: {
+    type: 'object',
+    fields: {
+      label: { type: 'string' },
+      topic: { type: 'string' },
+      occupantsByID: { type: 'array', items: { type: 'string' } },
+      isPinned: { type: 'boolean', optional: true },
+      boundingBox: BOUNDING_BOX_SCHEMA,
+    },
+  },
+};
+
+/**
+ * Schema of the body of a ConversationAreaUpdateRequest, whose coveyTownID and conversationLabel
+ * are taken from the request's path
+ */
+export const CONVERSATION_AREA_UPDATE_REQUEST_SCHEMA: RequestSchema = {
+  sessionToken: { type: 'string' },
+  topic: { type: 'string', optional: true },
+  boundingBox: { ...BOUNDING_BOX_SCHEMA, optional: true },
+  isPinned: { type: 'boolean', optional: true },
+  coveyTownPassword: { type: 'string', optional: true },
+};
@@ -1,28 +1,468 @@
-import express, { Express } from 'express';
+import express, { Express, RequestHandler } from 'express';
 import io from 'socket.io';
 import { Server } from 'http';
 import { StatusCodes } from 'http-status-codes';
 import {
   conversationAreaCreateHandler,
+  conversationAreaDeleteHandler,
+  conversationAreaUpdateHandler,
+  auditLogHandler,
+  inviteCreateHandler,
+  metricsHandler,
+  inviteListHandler,
+  inviteRevokeHandler,
+  playerBanHandler,
+  playerKickHandler,
+  readinessHandler,
+  recordingStartHandler,
+  recordingStopHandler,
+  replayCreateHandler,
+  templateCreateHandler,
+  templateListHandler,
   townCreateHandler, townDeleteHandler,
+  townExportHandler,
+  townImportHandler,
   townJoinHandler,
   townListHandler,
+  townMapUpdateHandler,
   townSubscriptionHandler,
   townUpdateHandler,
+  ResponseEnvelope,
+  waitlistJoinHandler,
+  waitlistLeaveHandler,
+  waitlistStatusHandler,
 } from '../requestHandlers/CoveyTownRequestHandlers';
+import {
+  CONVERSATION_AREA_CREATE_REQUEST_SCHEMA,
+  CONVERSATION_AREA_UPDATE_REQUEST_SCHEMA,
+  RequestSchema,
+  TOWN_CREATE_REQUEST_SCHEMA,
+  TOWN_JOIN_REQUEST_SCHEMA,
+  TOWN_UPDATE_REQUEST_SCHEMA,
+  validateRequest,
+} from '../requestHandlers/RequestSchemas';
 import { logError } from '../Utils';
+import { AuditEventType, ResponseErrorCode } from '../CoveyTypes';
+import Metrics from '../lib/Metrics';
+import RateLimiter from '../lib/RateLimiter';
+
+/** Maximum size of a request body that includes a Tiled map */
+const MAX_MAP_SIZE = '5mb';
+
+/** Maximum size of a request body that includes a recording of a town (and its map) */
+const MAX_RECORDING_SIZE = '50mb';
+
+/** Number of requests that each IP address may make to each REST route at once, when REST_RATE_LIMIT_BURST is not set */
+const DEFAULT_REST_RATE_LIMIT_BURST = 200;
+
+/** Number of requests that each IP address may make to each REST route per second, when REST_RATE_LIMIT_PER_SECOND is not set */
+const DEFAULT_REST_RATE_LIMIT_PER_SECOND = 20;
+
+/** HTTP status of the response to a failed request, by the reason that it failed */
+const ERROR_CODE_STATUSES: Record<ResponseErrorCode, StatusCodes> = {
+  invalidRequest: StatusCodes.BAD_REQUEST,
+  invalidPassword: StatusCodes.FORBIDDEN,
+  forbidden: StatusCodes.FORBIDDEN,
+  notFound: StatusCodes.NOT_FOUND,
+  conflict: StatusCodes.CONFLICT,
+  rateLimited: StatusCodes.TOO_MANY_REQUESTS,
+  serverShuttingDown: StatusCodes.SERVICE_UNAVAILABLE,
+};
+
+/**
+ * Determines the HTTP status of the response to a request from its handler's result: 200 if the
+ * request succeeded, or otherwise the status for its error code (400 if it has none)
+ */
+function responseStatus(result: ResponseEnvelope<unknown>): StatusCodes {
+  if (result.isOK) {
+    return StatusCodes.OK;
+  }
+  return result.errorCode ? ERROR_CODE_STATUSES[result.errorCode] : StatusCodes.BAD_REQUEST;
+}
+
+/**
+ * Validates the body of a request against its schema before its handler runs, responding to
+ * requests that do not match with 400 Bad Request
+ */
+function validateBody(schema: RequestSchema): RequestHandler {
+  return (req, res, next) => {
+    const problem = validateRequest(schema, req.body);
+    if (problem) {
+      const result: ResponseEnvelope<never> = {
+        isOK: false,
+        errorCode: 'invalidRequest',
+        message: `Invalid request: ${problem}`,
+      };
+      res.status(responseStatus(result))
+        .json(result);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Limits the rate of requests from each IP address to each route, responding to requests over the
+ * limit with 429 Too Many Requests and the number of seconds to wait before trying again. Each
+ * route has its own limit, so that a client that frequently polls one route (such as its place on
+ * a waitlist) does not use up the requests that it may make to the others.
+ */
+function limitRate(rateLimiter: RateLimiter): RequestHandler {
+  return (req, res, next) => {
+    const retryAfterMs = rateLimiter.consume(`${req.method} ${req.route.path} ${req.ip}`);
+    if (retryAfterMs > 0) {
+      res.status(StatusCodes.TOO_MANY_REQUESTS)
+        .set('Retry-After', String(Math.ceil(retryAfterMs / 1000)))
+        .json({
+          isOK: false,
+          errorCode: 'rateLimited',
+          message: 'Too many requests. Please try again later',
+        });
+      return;
+    }
+    next();
+  };
+}
 
 export default function addTownRoutes(http: Server, app: Express): io.Server {
+  const metrics = Metrics.getInstance();
+
+  /*
+   * Measure the latency of every request, labelled with the route that handled it (rather than
+   * the path, so that each town does not get its own label)
+   */
+  app.use((req, res, next) => {
+    const start = process.hrtime();
+    res.on('finish', () => {
+      const [seconds, nanoseconds] = process.hrtime(start);
+      metrics.httpRequestDuration.observe({
+        method: req.method,
+        route: req.route?.path ?? 'unmatched',
+        status_code: String(res.statusCode),
+      }, seconds + nanoseconds / 1e9);
+    });
+    next();
+  });
+
+  /*
+   * Limit the rate of requests from each IP address to each route, except for the routes that
+   * are used to monitor the server
+   */
+  const rateLimit = limitRate(new RateLimiter(
+    Number(process.env.REST_RATE_LIMIT_BURST) || DEFAULT_REST_RATE_LIMIT_BURST,
+    Number(process.env.REST_RATE_LIMIT_PER_SECOND) || DEFAULT_REST_RATE_LIMIT_PER_SECOND,
+  ));
+
+  /**
+   * Liveness check: the server is up and able to respond to requests
+   */
+  app.get('/healthz', async (_req, res) => {
+    res.status(StatusCodes.OK)
+      .json({ isOK: true, response: {} });
+  });
+
+  /**
+   * Readiness check: the server is accepting new sessions, which it stops doing once it starts
+   * shutting down
+   */
+  app.get('/readyz', async (_req, res) => {
+    try {
+      const result = readinessHandler();
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Expose the metrics of the town service in the Prometheus text format
+   */
+  app.get('/metrics', async (_req, res) => {
+    try {
+      res.status(StatusCodes.OK)
+        .type('text/plain; version=0.0.4')
+        .send(metricsHandler());
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
   /*
    * Create a new session (aka join a town)
    */
-  app.post('/sessions', express.json(), async (req, res) => {
+  app.post('/sessions', rateLimit, express.json(), validateBody(TOWN_JOIN_REQUEST_SCHEMA), async (req, res) => {
     try {
       const result = await townJoinHandler({
         userName: req.body.userName,
         coveyTownID: req.body.coveyTownID,
+        inviteToken: req.body.inviteToken,
+        joinPassword: req.body.joinPassword,
+        clientAddress: req.ip,
       });
-      res.status(StatusCodes.OK)
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Start recording the events of a town
+   */
+  app.post('/towns/:townID/recording', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = recordingStartHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.body.coveyTownPassword,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Stop recording the events of a town, responding with the recording
+   */
+  app.delete('/towns/:townID/recording/:townPassword', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = recordingStopHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.params.townPassword,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Create a read-only town that replays a recording
+   */
+  app.post('/replays', rateLimit, express.json({ limit: MAX_RECORDING_SIZE }), async (req, res) => {
+    try {
+      const result = replayCreateHandler({
+        recording: req.body.recording,
+        isPubliclyListed: req.body.isPubliclyListed,
+        speed: req.body.speed,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Fetch the audit log of a town, optionally filtered by a comma-separated list of event types
+   * and a time range
+   */
+  app.get('/towns/:townID/audit', rateLimit, express.json(), async (req, res) => {
+    try {
+      const { type, since, until } = req.query;
+      const result = auditLogHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: String(req.query.coveyTownPassword ?? ''),
+        types: type !== undefined ? String(type).split(',') as AuditEventType[] : undefined,
+        since: since !== undefined ? Number(since) : undefined,
+        until: until !== undefined ? Number(until) : undefined,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Create an invite to a town
+   */
+  app.post('/towns/:townID/invites', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = inviteCreateHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.body.coveyTownPassword,
+        expiresAt: req.body.expiresAt,
+        maxUses: req.body.maxUses,
+        role: req.body.role,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * List the invites to a town that may still be used
+   */
+  app.get('/towns/:townID/invites/:townPassword', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = inviteListHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.params.townPassword,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Revoke an invite to a town
+   */
+  app.delete('/towns/:townID/invites/:inviteToken/:townPassword', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = inviteRevokeHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.params.townPassword,
+        inviteToken: req.params.inviteToken,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Remove a player from a town
+   */
+  app.post('/towns/:townID/players/:playerID/kick', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = playerKickHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.body.coveyTownPassword,
+        playerID: req.params.playerID,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Remove a player from a town, and ban them from joining it again
+   */
+  app.post('/towns/:townID/players/:playerID/ban', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = playerBanHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.body.coveyTownPassword,
+        playerID: req.params.playerID,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Wait for a spot in a town that is full
+   */
+  app.post('/towns/:townID/waitlist', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = waitlistJoinHandler({
+        userName: req.body.userName,
+        coveyTownID: req.params.townID,
+        joinPassword: req.body.joinPassword,
+        clientAddress: req.ip,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Check on a place on a town's waitlist
+   */
+  app.get('/towns/:townID/waitlist/:waitlistTicket', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = waitlistStatusHandler({
+        coveyTownID: req.params.townID,
+        waitlistTicket: req.params.waitlistTicket,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Give up a place on a town's waitlist
+   */
+  app.delete('/towns/:townID/waitlist/:waitlistTicket', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = waitlistLeaveHandler({
+        coveyTownID: req.params.townID,
+        waitlistTicket: req.params.waitlistTicket,
+      });
+      res.status(responseStatus(result))
         .json(result);
     } catch (err) {
       logError(err);
@@ -36,13 +476,13 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   /**
    * Delete a town
    */
-  app.delete('/towns/:townID/:townPassword', express.json(), async (req, res) => {
+  app.delete('/towns/:townID/:townPassword', rateLimit, express.json(), async (req, res) => {
     try {
       const result = townDeleteHandler({
         coveyTownID: req.params.townID,
         coveyTownPassword: req.params.townPassword,
       });
-      res.status(200)
+      res.status(responseStatus(result))
         .json(result);
     } catch (err) {
       logError(err);
@@ -56,10 +496,10 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   /**
    * List all towns
    */
-  app.get('/towns', express.json(), async (_req, res) => {
+  app.get('/towns', rateLimit, express.json(), async (_req, res) => {
     try {
       const result = townListHandler();
-      res.status(StatusCodes.OK)
+      res.status(responseStatus(result))
         .json(result);
     } catch (err) {
       logError(err);
@@ -73,10 +513,48 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   /**
    * Create a town
    */
-  app.post('/towns', express.json(), async (req, res) => {
+  app.post('/towns', rateLimit, express.json({ limit: MAX_MAP_SIZE }), validateBody(TOWN_CREATE_REQUEST_SCHEMA), async (req, res) => {
     try {
       const result = townCreateHandler(req.body);
-      res.status(StatusCodes.OK)
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * List the names of the saved town templates
+   */
+  app.get('/templates', rateLimit, express.json(), async (_req, res) => {
+    try {
+      const result = templateListHandler();
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Save a snapshot of a town's configuration as a named template
+   */
+  app.post('/templates', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = templateCreateHandler({
+        templateName: req.body.templateName,
+        coveyTownID: req.body.coveyTownID,
+        coveyTownPassword: req.body.coveyTownPassword,
+      });
+      res.status(responseStatus(result))
         .json(result);
     } catch (err) {
       logError(err);
@@ -86,18 +564,82 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
         });
     }
   });
+
+  /**
+   * Create a town from a snapshot of another town's configuration
+   */
+  app.post('/towns/import', rateLimit, express.json({ limit: MAX_MAP_SIZE }), async (req, res) => {
+    try {
+      const result = townImportHandler({
+        snapshot: req.body.snapshot,
+        isPubliclyListed: req.body.isPubliclyListed,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Export a snapshot of a town's configuration
+   */
+  app.get('/towns/:townID/export/:townPassword', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = townExportHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.params.townPassword,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
   /**
    * Update a town
    */
-  app.patch('/towns/:townID', express.json(), async (req, res) => {
+  app.patch('/towns/:townID', rateLimit, express.json(), validateBody(TOWN_UPDATE_REQUEST_SCHEMA), async (req, res) => {
     try {
       const result = townUpdateHandler({
         coveyTownID: req.params.townID,
         isPubliclyListed: req.body.isPubliclyListed,
         friendlyName: req.body.friendlyName,
         coveyTownPassword: req.body.coveyTownPassword,
+        settings: req.body.settings,
+        joinPassword: req.body.joinPassword,
       });
-      res.status(StatusCodes.OK)
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Replace the map of a town
+   */
+  app.put('/towns/:townID/map', rateLimit, express.json({ limit: MAX_MAP_SIZE }), async (req, res) => {
+    try {
+      const result = townMapUpdateHandler({
+        coveyTownID: req.params.townID,
+        coveyTownPassword: req.body.coveyTownPassword,
+        map: req.body.map,
+      });
+      res.status(responseStatus(result))
         .json(result);
     } catch (err) {
       logError(err);
@@ -108,14 +650,63 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
     }
   });
 
-  app.post('/towns/:townID/conversationAreas', express.json(), async (req, res) => {
+  app.post('/towns/:townID/conversationAreas', rateLimit, express.json(), validateBody(CONVERSATION_AREA_CREATE_REQUEST_SCHEMA), async (req, res) => {
     try {
       const result = await conversationAreaCreateHandler({
         coveyTownID: req.params.townID,
         sessionToken: req.body.sessionToken,
         conversationArea: req.body.conversationArea,
+        coveyTownPassword: req.body.coveyTownPassword,
       });
-      res.status(StatusCodes.OK)
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Update a conversation area's topic and/or bounding box
+   */
+  app.patch('/towns/:townID/conversationAreas/:conversationLabel', rateLimit, express.json(), validateBody(CONVERSATION_AREA_UPDATE_REQUEST_SCHEMA), async (req, res) => {
+    try {
+      const result = conversationAreaUpdateHandler({
+        coveyTownID: req.params.townID,
+        conversationLabel: req.params.conversationLabel,
+        sessionToken: req.body.sessionToken,
+        topic: req.body.topic,
+        boundingBox: req.body.boundingBox,
+        isPinned: req.body.isPinned,
+        coveyTownPassword: req.body.coveyTownPassword,
+      });
+      res.status(responseStatus(result))
+        .json(result);
+    } catch (err) {
+      logError(err);
+      res.status(StatusCodes.INTERNAL_SERVER_ERROR)
+        .json({
+          message: 'Internal server error, please see log in server for more details',
+        });
+    }
+  });
+
+  /**
+   * Delete a conversation area. The town update password is only needed for pinned conversation
+   * areas, and in towns where only the owner may create conversation areas.
+   */
+  app.delete('/towns/:townID/conversationAreas/:conversationLabel/:sessionToken/:townPassword?', rateLimit, express.json(), async (req, res) => {
+    try {
+      const result = conversationAreaDeleteHandler({
+        coveyTownID: req.params.townID,
+        conversationLabel: req.params.conversationLabel,
+        sessionToken: req.params.sessionToken,
+        coveyTownPassword: req.params.townPassword,
+      });
+      res.status(responseStatus(result))
         .json(result);
     } catch (err) {
       logError(err);
@@ -127,6 +718,10 @@ export default function addTownRoutes(http: Server, app: Express): io.Server {
   });
 
   const socketServer = new io.Server(http, { cors: { origin: '*' } });
-  socketServer.on('connection', townSubscriptionHandler);
+  socketServer.on('connection', socket => {
+    metrics.socketConnections.inc();
+    socket.on('disconnect', () => metrics.socketConnections.dec());
+    townSubscriptionHandler(socket);
+  });
   return socketServer;
 }
@@ -4,19 +4,54 @@ import CORS from 'cors';
 import { AddressInfo } from 'net';
 import addTownRoutes from './router/towns';
 import CoveyTownsStore from './lib/CoveyTownsStore';
+import { parseNonNegativeNumber } from './Utils';
+
+/** How often (in ms) to check for players who have been idle for too long */
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+
+/** How long (in seconds) players are warned for before they are disconnected when the server shuts down */
+const DEFAULT_SHUTDOWN_COUNTDOWN_SECONDS = 10;
 
 const app = Express();
 app.use(CORS());
 const server = http.createServer(app);
 
-addTownRoutes(server, app);
+const socketServer = addTownRoutes(server, app);
+let idleCheckInterval: NodeJS.Timeout | undefined;
 
 server.listen(process.env.PORT || 8081, () => {
   const address = server.address() as AddressInfo;
   // eslint-disable-next-line no-console
   console.log(`Listening on ${address.port}`);
-  if (process.env.DEMO_TOWN_ID) {
+  // The demo town may have already been restored from storage
+  if (process.env.DEMO_TOWN_ID
+    && !CoveyTownsStore.getInstance().getControllerForTown(process.env.DEMO_TOWN_ID)) {
     CoveyTownsStore.getInstance()
       .createTown(process.env.DEMO_TOWN_ID, false);
   }
+  idleCheckInterval = setInterval(() => CoveyTownsStore.getInstance().checkIdleSessions(), IDLE_CHECK_INTERVAL_MS);
+});
+
+/*
+ * Shut down gracefully when asked to (for instance, during a deploy): stop accepting new sessions,
+ * warn every player with a countdown, save every town (unless SHUTDOWN_SKIP_PERSIST is set), and
+ * disconnect every player before exiting
+ */
+let isShuttingDown = false;
+process.on('SIGTERM', async () => {
+  if (isShuttingDown) {
+    return;
+  }
+  isShuttingDown = true;
+  const countdownSeconds = parseNonNegativeNumber(process.env.SHUTDOWN_COUNTDOWN_SECONDS,
+    DEFAULT_SHUTDOWN_COUNTDOWN_SECONDS);
+  // eslint-disable-next-line no-console
+  console.log(`Shutting down in ${countdownSeconds} seconds`);
+  if (idleCheckInterval) {
+    clearInterval(idleCheckInterval);
+  }
+  await CoveyTownsStore.getInstance().shutdown(countdownSeconds, !process.env.SHUTDOWN_SKIP_PERSIST);
+  socketServer.close(() => process.exit(0));
+  // Idle keep-alive connections can stop the server from closing; don't wait for them forever
+  setTimeout(() => process.exit(0), 5000).unref();
 });
@@ -1,4 +1,5 @@
 import { ServerConversationArea } from '../client/TownsServiceClient';
+import { ChatMessage, PlayerRemovalReason } from '../CoveyTypes';
 import Player from './Player';
 
 /**
@@ -39,4 +40,49 @@ export default interface CoveyTownListener {
    * @param conversationArea the conversation area that has been destroyed
    */
   onConversationAreaDestroyed(conversationArea: ServerConversationArea): void;
+
+  /**
+   * Called when a player sends a chat message to the town, or to a conversation area that the
+   * listener's player is in
+   * @param message the chat message
+   */
+  onChatMessage(message: ChatMessage): void;
+
+  /**
+   * Called when the listener's player enters a conversation area, with the recent chat messages
+   * that were sent in that conversation area
+   * @param messages the recent chat messages, oldest first
+   */
+  onChatHistory(messages: ChatMessage[]): void;
+
+  /**
+   * Called when another player sends a direct message to the listener's player
+   * @param message the direct message
+   */
+  onDirectMessage(message: ChatMessage): void;
+
+  /**
+   * Called when a player becomes away (because they have been idle), or active again
+   * @param player the player whose away status changed
+   */
+  onPlayerAwayStatusChanged(player: Player): void;
+
+  /**
+   * Called when a player changes their status, status message or avatar
+   * @param player the player whose profile changed
+   */
+  onPlayerProfileUpdated(player: Player): void;
+
+  /**
+   * Called when the listener's player is removed from the town by its owner, or for being idle,
+   * just before their session is destroyed
+   * @param reason why the player was removed; players who are 'banned' may not rejoin
+   */
+  onPlayerKicked(reason: PlayerRemovalReason): void;
+
+  /**
+   * Called once a second while the server is shutting down, until every player is disconnected
+   * @param secondsRemaining time until every player is disconnected from the town
+   */
+  onServerShuttingDown(secondsRemaining: number): void;
 }
@@ -1,6 +1,6 @@
 import { nanoid } from 'nanoid';
 import { ServerConversationArea } from '../client/TownsServiceClient';
-import { UserLocation } from '../CoveyTypes';
+import { PlayerStatus, UserLocation } from '../CoveyTypes';
 
 /**
  * Each user who is connected to a town is represented by a Player object
@@ -18,7 +18,24 @@ export default class Player {
   /** The current ConversationArea that the player is in, or undefined if they are not located within one */
   private _activeConversationArea?: ServerConversationArea;
 
-  constructor(userName: string) {
+  /** Whether the player has been idle for long enough to be shown as away * */
+  private _isAway = false;
+
+  /** Whether the player is willing to be approached by other players * */
+  private _status: PlayerStatus = 'available';
+
+  /** Short message that explains the player's status * */
+  private _statusMessage = '';
+
+  /** Identifier of the avatar that the player is drawn with * */
+  private _avatar = 'default';
+
+  /**
+   * @param userName 
+   * @param id ID to use for this player, instead of generating a new one (which is only the case
+   *  when replaying a player from a recording)
+   */
+  constructor(userName: string, id?: string) {
     this.location = {
       x: 0,
       y: 0,
@@ -26,7 +43,7 @@ export default class Player {
       rotation: 'front',
     };
     this._userName = userName;
-    this._id = nanoid();
+    this._id = id ?? nanoid();
   }
 
   get userName(): string {
@@ -37,6 +54,38 @@ export default class Player {
     return this._id;
   }
 
+  get isAway(): boolean {
+    return this._isAway;
+  }
+
+  set isAway(value: boolean) {
+    this._isAway = value;
+  }
+
+  get status(): PlayerStatus {
+    return this._status;
+  }
+
+  set status(value: PlayerStatus) {
+    this._status = value;
+  }
+
+  get statusMessage(): string {
+    return this._statusMessage;
+  }
+
+  set statusMessage(value: string) {
+    this._statusMessage = value;
+  }
+
+  get avatar(): string {
+    return this._avatar;
+  }
+
+  set avatar(value: string) {
+    this._avatar = value;
+  }
+
   get activeConversationArea(): ServerConversationArea | undefined {
     return this._activeConversationArea;
   }
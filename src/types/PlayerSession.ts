@@ -1,5 +1,6 @@
 import { nanoid } from 'nanoid';
 import Player from './Player';
+import { TownRole } from '../CoveyTypes';
 
 /*
  A session represents a connection of a player to a town, storing the secret tokens
@@ -15,8 +16,27 @@ export default class PlayerSession {
   /** The secret token that allows this client to access our video resources for this town * */
   private _videoToken?: string;
 
-  constructor(player: Player) {
+  /** The time (in ms since the epoch) of this player's last accepted movement, or of when they joined * */
+  private _lastMovementTime: number = Date.now();
+
+  /** The time (in ms since the epoch) that this player last moved, chatted or sent a heartbeat * */
+  private _lastActivityTime: number = Date.now();
+
+  /** The times (in ms since the epoch) that this player recently sent chat messages * */
+  private _recentChatMessageTimes: number[] = [];
+
+  /** Destroys this session if the player does not reconnect in time after their client disconnects * */
+  private _gracePeriodTimer?: NodeJS.Timeout;
+
+  /** The role that this player has in the town * */
+  private _role: TownRole = 'member';
+
+  /** The IP address that this player joined the town from, if it is known * */
+  private readonly _clientAddress?: string;
+
+  constructor(player: Player, clientAddress?: string) {
     this._player = player;
+    this._clientAddress = clientAddress;
     // Session tokens are randomly generated strings
     this._sessionToken = nanoid();
   }
@@ -29,6 +49,50 @@ export default class PlayerSession {
     return this._videoToken;
   }
 
+  set lastMovementTime(value: number) {
+    this._lastMovementTime = value;
+  }
+
+  get lastMovementTime(): number {
+    return this._lastMovementTime;
+  }
+
+  set lastActivityTime(value: number) {
+    this._lastActivityTime = value;
+  }
+
+  get lastActivityTime(): number {
+    return this._lastActivityTime;
+  }
+
+  set recentChatMessageTimes(value: number[]) {
+    this._recentChatMessageTimes = value;
+  }
+
+  get recentChatMessageTimes(): number[] {
+    return this._recentChatMessageTimes;
+  }
+
+  set gracePeriodTimer(value: NodeJS.Timeout | undefined) {
+    this._gracePeriodTimer = value;
+  }
+
+  get gracePeriodTimer(): NodeJS.Timeout | undefined {
+    return this._gracePeriodTimer;
+  }
+
+  set role(value: TownRole) {
+    this._role = value;
+  }
+
+  get role(): TownRole {
+    return this._role;
+  }
+
+  get clientAddress(): string | undefined {
+    return this._clientAddress;
+  }
+
   get player(): Player {
     return this._player;
   }
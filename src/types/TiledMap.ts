@@ -0,0 +1,45 @@
+/**
+ * The subset of the Tiled JSON map format (https://doc.mapeditor.org/en/stable/reference/json-map-format/)
+ * that the town service understands
+ */
+export type TiledProperty = {
+  name: string;
+  type?: string;
+  value: unknown;
+};
+
+export type TiledObject = {
+  name: string;
+  type?: string;
+  class?: string;
+  x: number;
+  y: number;
+  properties?: TiledProperty[];
+};
+
+/**
+ * A layer of a Tiled map. Tile layers have `data`, object layers have `objects`, and group layers
+ * have nested `layers`
+ */
+export type TiledLayer = {
+  type: string;
+  name: string;
+  data?: number[];
+  objects?: TiledObject[];
+  layers?: TiledLayer[];
+  properties?: TiledProperty[];
+};
+
+export type TiledTileset = {
+  firstgid: number;
+  tiles?: { id: number; properties?: TiledProperty[] }[];
+};
+
+export type TiledMap = {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+};
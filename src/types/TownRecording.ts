@@ -0,0 +1,48 @@
+import { UserLocation } from '../CoveyTypes';
+import { TiledMap } from './TiledMap';
+
+/**
+ * A player, as they were at the time of a recorded event
+ */
+export type RecordedPlayer = {
+  id: string;
+  userName: string;
+  location: UserLocation;
+};
+
+/**
+ * A conversation area, as it was at the time of a recorded event. Same as a ServerConversationArea.
+ */
+export type RecordedConversationArea = {
+  label: string;
+  topic: string;
+  occupantsByID: string[];
+  /** x,y is the center of the box */
+  boundingBox: { x: number; y: number; width: number; height: number };
+  isPinned?: boolean;
+};
+
+/**
+ * An event that a town emitted while it was being recorded
+ */
+export type RecordedTownEvent = {
+  /** Time at which the event was emitted, in ms since the recording started */
+  offset: number;
+} & (
+  | { type: 'playerJoined' | 'playerMoved'; player: RecordedPlayer }
+  | { type: 'playerDisconnected'; playerID: string }
+  | { type: 'conversationAreaUpdated' | 'conversationAreaDestroyed'; conversationArea: RecordedConversationArea }
+);
+
+/**
+ * The stream of events that a town emitted over a period of time, which can be replayed into a
+ * read-only replay town. The players and conversation areas that were already in the town when
+ * the recording started are included as events at the very start of the recording.
+ */
+export type TownRecording = {
+  friendlyName: string;
+  /** Time at which the recording started, in ms since the epoch */
+  startedAt: number;
+  map?: TiledMap;
+  events: RecordedTownEvent[];
+};
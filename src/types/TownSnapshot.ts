@@ -0,0 +1,36 @@
+import { TownSettings } from '../CoveyTypes';
+import { TiledMap } from './TiledMap';
+
+/**
+ * The version of the snapshot format that this server produces. Snapshots with any other version
+ * are rejected when they are imported; increment this whenever the format changes incompatibly.
+ */
+export const TOWN_SNAPSHOT_VERSION = 1;
+
+/**
+ * A portable copy of a town's configuration, which can be exported from one server and imported
+ * into another to create a new town with the same layout. Unlike a CoveyTownRecord, a snapshot
+ * contains none of the town's secrets (its ID, passwords, invites and bans).
+ */
+export type TownSnapshot = {
+  version: number;
+  friendlyName: string;
+  settings: TownSettings;
+  conversationAreas: {
+    label: string;
+    topic: string;
+    /** Same as the BoundingBox of a ServerConversationArea: x,y is the center of the box */
+    boundingBox: { x: number; y: number; width: number; height: number };
+    isPinned?: boolean;
+  }[];
+  map?: TiledMap;
+};
+
+/**
+ * A snapshot of a town's configuration that is saved under a name, so that new towns can be
+ * created with the same layout
+ */
+export type TownTemplate = {
+  name: string;
+  snapshot: TownSnapshot;
+};
@@ -0,0 +1,68 @@
+import { nanoid } from 'nanoid';
+import PlayerSession from './PlayerSession';
+import WaitlistListener from './WaitlistListener';
+
+/**
+ * A request to join a town that was full, waiting for a player to leave
+ */
+export default class WaitlistEntry {
+  /** The secret ticket that identifies this entry to the client that is waiting * */
+  private readonly _ticket: string;
+
+  /** The username that the player will have once they are admitted * */
+  private readonly _userName: string;
+
+  /** The IP address that the request was made from, if it is known * */
+  private readonly _clientAddress?: string;
+
+  /** Whether a spot in the town has been given to this entry * */
+  private _isAdmitted = false;
+
+  /** The session of the player, once they have been admitted and their session is ready * */
+  private _session?: PlayerSession;
+
+  /** The listener that is notified about changes to this entry, if the client is subscribed * */
+  private _listener?: WaitlistListener;
+
+  constructor(userName: string, clientAddress?: string) {
+    this._userName = userName;
+    this._clientAddress = clientAddress;
+    this._ticket = nanoid();
+  }
+
+  get ticket(): string {
+    return this._ticket;
+  }
+
+  get userName(): string {
+    return this._userName;
+  }
+
+  get clientAddress(): string | undefined {
+    return this._clientAddress;
+  }
+
+  set isAdmitted(value: boolean) {
+    this._isAdmitted = value;
+  }
+
+  get isAdmitted(): boolean {
+    return this._isAdmitted;
+  }
+
+  set session(value: PlayerSession | undefined) {
+    this._session = value;
+  }
+
+  get session(): PlayerSession | undefined {
+    return this._session;
+  }
+
+  set listener(value: WaitlistListener | undefined) {
+    this._listener = value;
+  }
+
+  get listener(): WaitlistListener | undefined {
+    return this._listener;
+  }
+}
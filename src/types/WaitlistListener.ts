@@ -0,0 +1,18 @@
+import PlayerSession from './PlayerSession';
+
+/**
+ * A listener for events concerning a single entry on a town's waitlist
+ */
+export default interface WaitlistListener {
+  /**
+   * Called when the entry moves up the waitlist
+   * @param position the entry's new position on the waitlist, starting at 1
+   */
+  onWaitlistPositionChanged(position: number): void;
+
+  /**
+   * Called when the entry is admitted to the town, once the new player's session is ready
+   * @param session the session of the newly admitted player
+   */
+  onWaitlistAdmitted(session: PlayerSession): void;
+}